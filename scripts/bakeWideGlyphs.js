@@ -0,0 +1,197 @@
+// メッセージに使う ASCII 以外の文字（日本語など）を DotGothic16 から 16×16 のドット文字に焼いて
+// src/render/wideGlyphs.ts に書き出す。実行時に Web フォントを読まずに済むように、字形はリポジトリに入れる。
+//
+//   yarn glyphs        # src/i18n のメッセージを変えたら作り直す
+//
+// DotGothic16 は SIL Open Font License 1.1（@fontsource/dotgothic16 の LICENSE を参照）。
+import { readFileSync, writeFileSync } from 'node:fs';
+import opentype from 'opentype.js';
+
+const FONT_DIR = 'node_modules/@fontsource/dotgothic16';
+const CATALOGS = ['src/i18n/en.ts', 'src/i18n/ja.ts'];
+const OUTPUT = 'src/render/wideGlyphs.ts';
+
+// 1文字の枠（px）。フォントの 1em をこの大きさにする
+const CELL = 16;
+// 1px を何分割して塗りの割合を測るか
+const SUBSAMPLES = 8;
+// 曲線を何本の線分で近似するか
+const CURVE_SEGMENTS = 8;
+
+/** @type {Record<string, string>} サブセット名 → unicode-range */
+const subsets = JSON.parse(readFileSync(`${FONT_DIR}/unicode.json`, 'utf8'));
+
+const inRange = (codePoint, range) => range.split(',').some(part => {
+    const [first, last] = part.trim().replace(/U\+/gi, '').split('-').map(hex => parseInt(hex, 16));
+    return codePoint >= first && codePoint <= (last ?? first);
+});
+
+/** @type {Map<string, import('opentype.js').Font>} */
+const fonts = new Map();
+
+// 文字を含むサブセットのフォント。フォントにない文字なら null
+const fontFor = (char) => {
+    const subset = Object.keys(subsets).find(key => inRange(char.codePointAt(0), subsets[key]));
+    if (!subset) return null;
+    if (!fonts.has(subset)) {
+        const name = subset.replace(/[[\]]/g, '');
+        const file = readFileSync(`${FONT_DIR}/files/dotgothic16-${name}-400-normal.woff`);
+        fonts.set(subset, opentype.parse(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength)));
+    }
+    return fonts.get(subset);
+};
+
+// メッセージの文字列に出てくる ASCII 以外の文字（コメントは除く）
+const collectChars = () => {
+    const source = CATALOGS.map(file => readFileSync(file, 'utf8'))
+        .join('\n')
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/\/\/.*$/gm, '');
+    return [...new Set(Array.from(source).filter(char => char.codePointAt(0) > 0x7e && !/\s/.test(char)))].sort();
+};
+
+/**
+ * 輪郭を線分に分ける。座標は枠の左上を原点とする px（フォントの上端 ascender が枠の上端）。
+ * @returns {[number, number, number, number][]} 線分（x0, y0, x1, y1）
+ */
+const flatten = (font, glyph) => {
+    const scale = CELL / font.unitsPerEm;
+    const top = font.tables.os2.sTypoAscender;
+    const point = (x, y) => [x * scale, (top - y) * scale];
+    const edges = [];
+    let start = null;
+    let current = null;
+
+    const lineTo = (next) => {
+        edges.push([...current, ...next]);
+        current = next;
+    };
+    glyph.path.commands.forEach(command => {
+        switch (command.type) {
+            case 'M':
+                start = current = point(command.x, command.y);
+                break;
+            case 'L':
+                lineTo(point(command.x, command.y));
+                break;
+            case 'Q': {
+                const [x0, y0] = current;
+                const [cx, cy] = point(command.x1, command.y1);
+                const [x1, y1] = point(command.x, command.y);
+                for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+                    const t = i / CURVE_SEGMENTS;
+                    const u = 1 - t;
+                    lineTo([u * u * x0 + 2 * u * t * cx + t * t * x1, u * u * y0 + 2 * u * t * cy + t * t * y1]);
+                }
+                break;
+            }
+            case 'C': {
+                const [x0, y0] = current;
+                const [ax, ay] = point(command.x1, command.y1);
+                const [bx, by] = point(command.x2, command.y2);
+                const [x1, y1] = point(command.x, command.y);
+                for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+                    const t = i / CURVE_SEGMENTS;
+                    const u = 1 - t;
+                    lineTo([
+                        u * u * u * x0 + 3 * u * u * t * ax + 3 * u * t * t * bx + t * t * t * x1,
+                        u * u * u * y0 + 3 * u * u * t * ay + 3 * u * t * t * by + t * t * t * y1
+                    ]);
+                }
+                break;
+            }
+            case 'Z':
+                if (current && start) lineTo(start);
+                break;
+        }
+    });
+    return edges;
+};
+
+/**
+ * 枠の周り1px まで含めて SUBSAMPLES 倍の細かさで塗る（非ゼロ規則）。
+ * 戻り値の添字 0 は枠の座標 -1px にあたる。
+ */
+const supersample = (edges) => {
+    const size = (CELL + 2) * SUBSAMPLES;
+    const samples = new Uint8Array(size * size);
+    for (let row = 0; row < size; row++) {
+        const y = (row + 0.5) / SUBSAMPLES - 1;
+        const crossings = edges
+            .filter(([, y0, , y1]) => (y0 <= y) !== (y1 <= y))
+            .map(([x0, y0, x1, y1]) => ({ x: x0 + (y - y0) * (x1 - x0) / (y1 - y0), winding: y1 > y0 ? 1 : -1 }))
+            .sort((a, b) => a.x - b.x);
+        let winding = 0;
+        crossings.forEach((crossing, i) => {
+            winding += crossing.winding;
+            if (winding === 0 || i === crossings.length - 1) return;
+            const from = Math.max(Math.ceil((crossing.x + 1) * SUBSAMPLES - 0.5), 0);
+            const to = Math.min(Math.floor((crossings[i + 1].x + 1) * SUBSAMPLES - 0.5), size - 1);
+            for (let column = from; column <= to; column++) samples[row * size + column] = 1;
+        });
+    }
+    return samples;
+};
+
+/**
+ * フォントの画素の格子は枠の格子と少しずれていることがあるので、ずらし方を 1/SUBSAMPLES px 刻みで試し、
+ * 塗りの割合がいちばん 0 か 1 に寄る（画素の境目が枠の境目に揃う）ずらし方で 16×16 に落とす。
+ */
+const snap = (samples) => {
+    const size = (CELL + 2) * SUBSAMPLES;
+    const coverageAt = (x, y, dx, dy) => {
+        let count = 0;
+        for (let j = 0; j < SUBSAMPLES; j++) {
+            for (let i = 0; i < SUBSAMPLES; i++) {
+                count += samples[((y + 1) * SUBSAMPLES + dy + j) * size + (x + 1) * SUBSAMPLES + dx + i];
+            }
+        }
+        return count / (SUBSAMPLES * SUBSAMPLES);
+    };
+
+    let best = null;
+    for (let dy = -SUBSAMPLES / 2; dy < SUBSAMPLES / 2; dy++) {
+        for (let dx = -SUBSAMPLES / 2; dx < SUBSAMPLES / 2; dx++) {
+            const coverage = [];
+            for (let y = 0; y < CELL; y++) {
+                for (let x = 0; x < CELL; x++) coverage.push(coverageAt(x, y, dx, dy));
+            }
+            const sharpness = coverage.reduce((sum, value) => sum + Math.abs(value - 0.5), 0);
+            const shift = Math.abs(dx) + Math.abs(dy);
+            if (!best || sharpness > best.sharpness + 1e-9 || (Math.abs(sharpness - best.sharpness) <= 1e-9 && shift < best.shift)) {
+                best = { sharpness, shift, coverage };
+            }
+        }
+    }
+    return best.coverage.map(value => value > 0.5);
+};
+
+// 1行16px を16進4桁（上位ビットが左）にして、1文字を64桁の文字列にする
+const encode = (pixels) => {
+    let hex = '';
+    for (let y = 0; y < CELL; y++) {
+        let bits = 0;
+        for (let x = 0; x < CELL; x++) bits = (bits << 1) | (pixels[y * CELL + x] ? 1 : 0);
+        hex += bits.toString(16).padStart(4, '0');
+    }
+    return hex;
+};
+
+const lines = [];
+collectChars().forEach(char => {
+    const font = fontFor(char);
+    const glyph = font?.charToGlyph(char);
+    if (!font || !glyph || glyph.index === 0) {
+        console.warn(`DotGothic16 has no glyph for ${char}`);
+        return;
+    }
+    lines.push(`    '${char}': '${encode(snap(supersample(flatten(font, glyph))))}'`);
+});
+
+writeFileSync(OUTPUT, `// scripts/bakeWideGlyphs.js が DotGothic16（SIL Open Font License 1.1）から作る。手で書き換えない。
+// メッセージに出てくる ASCII 以外の文字の 16×16 のドット文字で、1行を16進4桁（上位ビットが左）で並べる
+export const WIDE_GLYPHS: Record<string, string> = {
+${lines.join(',\n')}
+};
+`);
+console.log(`Wrote ${lines.length} glyphs to ${OUTPUT}`);
@@ -0,0 +1,188 @@
+// オンライン対戦の中継サーバー。依存パッケージなしで Node だけで動く。
+//
+//   yarn relay                 # ws://localhost:8787 で待ち受ける
+//   PORT=9000 yarn relay       # ポートを変える
+//
+// 部屋は接続 URL の ?room= で分ける（なければ lobby）。入った順に番号を振り、
+// 送られたメッセージを同じ部屋のほかの全員に from を付けて配る。ping にはその場で pong を返す。
+// 形式は src/net/protocol.ts と、同じ動きをするメモリ上の中継 src/net/transport.ts を参照。
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+// 部屋の定員（src/net/transport.ts の ROOM_CAPACITY と同じ）
+const ROOM_CAPACITY = 4;
+// これより大きいメッセージは送ってこないはずなので切断する
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** @type {Map<string, Set<Client>>} */
+const rooms = new Map();
+let nextId = 1;
+
+/**
+ * @typedef {object} Client
+ * @property {number} id
+ * @property {string} room
+ * @property {import('node:net').Socket} socket
+ * @property {Buffer} buffer 読みかけのフレーム
+ */
+
+// サーバーから送るフレームはマスクしない
+const encodeFrame = (opcode, payload) => {
+    const length = payload.length;
+    const header = length < 126
+        ? Buffer.from([0x80 | opcode, length])
+        : length < 65536
+            ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+            : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigLength(length)]);
+    return Buffer.concat([header, payload]);
+};
+
+const bigLength = (length) => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64BE(BigInt(length));
+    return buffer;
+};
+
+/**
+ * バッファの先頭から1フレーム読む。まだ全部届いていなければ null。
+ * 分割されたフレーム（FIN が立っていないもの）は使わないので扱わない。
+ */
+const decodeFrame = (buffer) => {
+    if (buffer.length < 2) return null;
+    const opcode = buffer[0] & 0x0f;
+    const isMasked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (buffer.length < 4) return null;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) return null;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+    const maskOffset = offset;
+    if (isMasked) offset += 4;
+    if (buffer.length < offset + length) return { opcode, length, payload: null, size: 0 };
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (isMasked) {
+        for (let i = 0; i < payload.length; i++) {
+            payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+    }
+    return { opcode, length, payload, size: offset + length };
+};
+
+const send = (client, message) => {
+    if (client.socket.writable) {
+        client.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+    }
+};
+
+const others = (client) => [...(rooms.get(client.room) ?? [])].filter(other => other !== client);
+
+const leave = (client) => {
+    const members = rooms.get(client.room);
+    if (!members?.delete(client)) return;
+    if (members.size === 0) rooms.delete(client.room);
+    others(client).forEach(other => send(other, { type: 'peerLeft', id: client.id }));
+    console.log(`P${client.id} left ${client.room}`);
+};
+
+const handleMessage = (client, text) => {
+    let message;
+    try {
+        message = JSON.parse(text);
+    } catch {
+        return;
+    }
+    if (message?.type === 'ping') {
+        send(client, { type: 'pong', sent: message.sent });
+    } else if (message?.type === 'broadcast') {
+        others(client).forEach(other => send(other, { type: 'peer', from: client.id, message: message.message }));
+    }
+};
+
+const handleData = (client, data) => {
+    client.buffer = Buffer.concat([client.buffer, data]);
+    for (;;) {
+        const frame = decodeFrame(client.buffer);
+        if (!frame) return;
+        if (frame.length > MAX_PAYLOAD_BYTES) {
+            client.socket.destroy();
+            return;
+        }
+        if (!frame.payload) return;
+        client.buffer = client.buffer.subarray(frame.size);
+
+        switch (frame.opcode) {
+            case OPCODE_TEXT:
+                handleMessage(client, frame.payload.toString('utf8'));
+                break;
+            case OPCODE_PING:
+                client.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+                break;
+            case OPCODE_CLOSE:
+                client.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+                return;
+        }
+    }
+};
+
+const server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('This is the renda-renderer relay. Connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+    // 断った接続で相手が切断しても落ちないように、どの接続にも最初に付けておく
+    socket.on('error', () => socket.destroy());
+    const key = request.headers['sec-websocket-key'];
+    if (typeof key !== 'string') {
+        socket.destroy();
+        return;
+    }
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        ''
+    ].join('\r\n'));
+    socket.setNoDelay(true);
+
+    const room = new URL(request.url ?? '/', 'http://localhost').searchParams.get('room') ?? 'lobby';
+    /** @type {Client} */
+    const client = { id: nextId++, room, socket, buffer: Buffer.alloc(0) };
+    const members = rooms.get(room) ?? new Set();
+
+    if (members.size >= ROOM_CAPACITY) {
+        send(client, { type: 'roomFull' });
+        socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        return;
+    }
+
+    send(client, { type: 'welcome', id: client.id, peers: [...members].map(member => member.id) });
+    members.forEach(member => send(member, { type: 'peerJoined', id: client.id }));
+    members.add(client);
+    rooms.set(room, members);
+    console.log(`P${client.id} joined ${room} (${members.size}/${ROOM_CAPACITY})`);
+
+    socket.on('data', data => handleData(client, data));
+    socket.on('close', () => leave(client));
+});
+
+server.listen(PORT, () => {
+    console.log(`Relay listening on ws://localhost:${PORT}`);
+});
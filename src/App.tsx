@@ -1,13 +1,22 @@
+import { useEffect, useSyncExternalStore } from 'react';
 import ClickGame from './components/ClickGame';
+import { currentLocale, messagesFor, subscribeLocale } from './i18n/locale';
 import './styles/ClickGame.css';
 
 function App() {
+    // ゲーム内で言語を切り替えると見出しも切り替わる
+    const locale = useSyncExternalStore(subscribeLocale, currentLocale);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
     return (
         <div className="App">
-            <h1>連打爆発ゲーム</h1>
+            <h1>{messagesFor(locale).appTitle}</h1>
             <ClickGame />
         </div>
     );
 }
 
-export default App; 
\ No newline at end of file
+export default App;
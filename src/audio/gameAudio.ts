@@ -0,0 +1,167 @@
+import type { FrameInput, Session } from '../game/lifecycle';
+import type { GameEvent } from '../game/events';
+import type { GameState } from '../game/types';
+import { ORBIT_LEAD_BEATS, thrustRatio } from '../game/simulation';
+import { isOrbitBurning } from '../game/effects';
+import { createMusicPlayer, type TrackId } from './music';
+import { createSoundEngine, noteToFrequency, type AudioSettings, type AudioSettingsStore } from './soundEngine';
+
+const VOLUME_STEP = 0.1;
+
+export interface GameAudio {
+    attach: () => void;
+    detach: () => void;
+    // 毎ステップ、セッションの更新後に呼ぶ
+    update: (session: Session, input: FrameInput) => void;
+    settings: () => AudioSettings;
+}
+
+// 打ち上げ成功のファンファーレ（ド・ミ・ソ・ド）
+const FANFARE = [72, 76, 79, 84];
+
+const musicFor = (session: Session): TrackId | null => {
+    switch (session.screen) {
+        case 'play':
+        case 'online':
+            return session.pauseMenu || session.state.isExploded || session.state.isFailed ? null : 'mission';
+        case 'versus':
+            return session.pauseMenu || session.versus?.winner !== null ? null : 'mission';
+        case 'result':
+        case 'versusResult':
+        case 'onlineResult':
+            return null;
+        default:
+            return 'title';
+    }
+};
+
+// ゲームの状態を効果音・エンジン音・BGMに反映する
+export const createGameAudio = (store: AudioSettingsStore): GameAudio => {
+    let settings = store.load();
+    const engine = createSoundEngine(settings);
+    const music = createMusicPlayer(engine);
+
+    // 自動再生制限の解除はユーザー操作のイベント内で行う必要がある
+    const handleGesture = () => engine.unlock();
+
+    const updateSettings = (next: AudioSettings) => {
+        settings = next;
+        engine.applySettings(settings);
+        store.save(settings);
+    };
+
+    const playEvent = (event: GameEvent) => {
+        switch (event.type) {
+            case 'charge':
+                // 燃料が増えるほど音程が上がる（2オクターブ）
+                engine.tone({
+                    frequency: 220 * Math.pow(2, (event.power / 100) * 2),
+                    duration: 0.06,
+                    volume: 0.3
+                });
+                break;
+            case 'fullPower':
+                engine.tone({ frequency: 440, endFrequency: 1760, duration: 0.5, volume: 0.4 });
+                break;
+            case 'countdown':
+                engine.tone({ frequency: 440, duration: 0.15, volume: 0.5 });
+                break;
+            case 'ignition':
+                engine.tone({ frequency: 880, duration: 0.6, volume: 0.5 });
+                break;
+            case 'launchSuccess':
+            case 'missionComplete': {
+                const now = engine.currentTime();
+                if (now === null) break;
+                FANFARE.forEach((note, i) => {
+                    engine.tone({
+                        frequency: noteToFrequency(note),
+                        duration: i === FANFARE.length - 1 ? 0.6 : 0.12,
+                        volume: 0.5,
+                        at: now + i * 0.12
+                    });
+                });
+                break;
+            }
+            case 'orbitBeat':
+                // 操作のタイミングの拍は高い音にする
+                engine.tone({
+                    frequency: event.beat >= ORBIT_LEAD_BEATS ? 1320 : 660,
+                    duration: 0.08,
+                    type: 'square',
+                    volume: 0.35
+                });
+                break;
+            case 'stageJudged':
+                if (event.offsetMs === null) {
+                    engine.tone({ frequency: 160, duration: 0.25, type: 'sawtooth', volume: 0.4 });
+                } else {
+                    // 正確なほど明るい音
+                    engine.tone({ frequency: 440 + event.accuracy * 440, endFrequency: 1760, duration: 0.2, volume: 0.4 });
+                }
+                break;
+            case 'launchFailed':
+            case 'orbitFailed':
+                engine.tone({ frequency: 440, endFrequency: 55, duration: 1.2, type: 'sawtooth', volume: 0.4 });
+                break;
+            case 'thrust':
+            case 'climb':
+                break;
+        }
+    };
+
+    const rumbleOf = (state: GameState) => {
+        switch (state.scene) {
+            case 'launch':
+                return state.isLaunching ? thrustRatio(state) : 0;
+            case 'atmosphere':
+                return 0.6;
+            case 'orbit':
+                return isOrbitBurning(state) ? 0.8 : 0.15;
+            default:
+                return 0;
+        }
+    };
+
+    // 対戦では2人のうち強いほうの振動を使う
+    const rumbleFor = (session: Session) => {
+        if (session.pauseMenu) return 0;
+        if (session.screen === 'versus' && session.versus) {
+            return Math.max(...session.versus.players.map(player => rumbleOf(player.state)));
+        }
+        return session.screen === 'play' || session.screen === 'online' ? rumbleOf(session.state) : 0;
+    };
+
+    return {
+        attach: () => {
+            window.addEventListener('keydown', handleGesture);
+            window.addEventListener('pointerdown', handleGesture);
+        },
+        detach: () => {
+            window.removeEventListener('keydown', handleGesture);
+            window.removeEventListener('pointerdown', handleGesture);
+            engine.close();
+        },
+        update: (session, input) => {
+            input.commands.forEach(command => {
+                switch (command) {
+                    case 'toggleMute':
+                        updateSettings({ ...settings, muted: !settings.muted });
+                        break;
+                    case 'volumeUp':
+                        updateSettings({ ...settings, master: Math.min(settings.master + VOLUME_STEP, 1) });
+                        break;
+                    case 'volumeDown':
+                        updateSettings({ ...settings, master: Math.max(settings.master - VOLUME_STEP, 0) });
+                        break;
+                }
+            });
+
+            session.events.forEach(playEvent);
+            engine.setRumble(rumbleFor(session));
+            music.play(musicFor(session));
+            music.update();
+        },
+        settings: () => settings
+    };
+};
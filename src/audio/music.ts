@@ -0,0 +1,101 @@
+import { noteToFrequency, type SoundEngine } from './soundEngine';
+
+export type TrackId = 'title' | 'mission';
+
+// 16分音符ごとのノート（MIDI番号、null は休符）
+interface Track {
+    bpm: number;
+    lead: (number | null)[];
+    bass: (number | null)[];
+}
+
+const TRACKS: Record<TrackId, Track> = {
+    // のんびりしたタイトル曲
+    title: {
+        bpm: 110,
+        lead: [
+            72, null, 76, null, 79, null, 76, null, 74, null, 77, null, 81, null, 77, null,
+            72, null, 76, null, 79, null, 84, null, 83, null, 79, null, 74, null, null, null
+        ],
+        bass: [
+            48, null, null, null, 48, null, null, null, 50, null, null, null, 50, null, null, null,
+            48, null, null, null, 48, null, null, null, 43, null, null, null, 43, null, null, null
+        ]
+    },
+    // 連打を煽る速い曲
+    mission: {
+        bpm: 160,
+        lead: [
+            69, 72, 76, 72, 69, 72, 76, 79, 67, 71, 74, 71, 67, 71, 74, 77,
+            65, 69, 72, 69, 65, 69, 72, 76, 64, 68, 71, 68, 76, 74, 71, 68
+        ],
+        bass: [
+            45, null, 45, null, 45, null, 57, null, 43, null, 43, null, 43, null, 55, null,
+            41, null, 41, null, 41, null, 53, null, 40, null, 40, null, 52, null, 40, null
+        ]
+    }
+};
+
+// どれだけ先までノートを予約しておくか（秒）
+const LOOKAHEAD_SECONDS = 0.15;
+
+export interface MusicPlayer {
+    // null で停止
+    play: (track: TrackId | null) => void;
+    // 毎ステップ呼び、先読み範囲のノートを予約する
+    update: () => void;
+}
+
+export const createMusicPlayer = (engine: SoundEngine): MusicPlayer => {
+    let track: TrackId | null = null;
+    let stepIndex = 0;
+    let nextStepTime: number | null = null;
+
+    return {
+        play: (next) => {
+            if (next === track) return;
+            track = next;
+            stepIndex = 0;
+            nextStepTime = null;
+        },
+        update: () => {
+            const now = engine.currentTime();
+            if (track === null || now === null) return;
+
+            const { bpm, lead, bass } = TRACKS[track];
+            const stepSeconds = 60 / bpm / 4;
+            if (nextStepTime === null || nextStepTime < now) {
+                nextStepTime = now + 0.05;
+            }
+
+            while (nextStepTime < now + LOOKAHEAD_SECONDS) {
+                const leadNote = lead[stepIndex % lead.length];
+                const bassNote = bass[stepIndex % bass.length];
+
+                if (leadNote !== null) {
+                    engine.tone({
+                        frequency: noteToFrequency(leadNote),
+                        duration: stepSeconds * 0.9,
+                        type: 'square',
+                        volume: 0.25,
+                        bus: 'music',
+                        at: nextStepTime
+                    });
+                }
+                if (bassNote !== null) {
+                    engine.tone({
+                        frequency: noteToFrequency(bassNote),
+                        duration: stepSeconds * 1.8,
+                        type: 'triangle',
+                        volume: 0.5,
+                        bus: 'music',
+                        at: nextStepTime
+                    });
+                }
+
+                nextStepTime += stepSeconds;
+                stepIndex++;
+            }
+        }
+    };
+};
@@ -0,0 +1,171 @@
+export type Bus = 'music' | 'sfx';
+
+export interface AudioSettings {
+    // 0〜1
+    master: number;
+    music: number;
+    sfx: number;
+    muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    master: 0.7,
+    music: 0.5,
+    sfx: 0.8,
+    muted: false
+};
+
+// 音量設定の永続化の窓口
+export interface AudioSettingsStore {
+    load: () => AudioSettings;
+    save: (settings: AudioSettings) => void;
+}
+
+export interface ToneOptions {
+    frequency: number;
+    // 指定すると duration の間にこの周波数まで滑らかに変化する
+    endFrequency?: number;
+    // 秒
+    duration: number;
+    type?: OscillatorType;
+    volume?: number;
+    bus?: Bus;
+    // AudioContext の時刻で指定する再生開始時刻（省略時は即時）
+    at?: number;
+}
+
+export interface SoundEngine {
+    // ユーザー操作のイベント内で呼び、AudioContext を作成・再開する
+    unlock: () => void;
+    applySettings: (settings: AudioSettings) => void;
+    tone: (options: ToneOptions) => void;
+    // エンジン音の大きさ（0〜1）
+    setRumble: (level: number) => void;
+    // AudioContext の現在時刻（秒）。まだ使えなければ null
+    currentTime: () => number | null;
+    close: () => void;
+}
+
+// 矩形波などは音が大きいので全体を絞っておく
+const OUTPUT_GAIN = 0.3;
+const NOISE_SECONDS = 2;
+
+/**
+ * Web Audio API でチップチューン風の音をその場で合成するエンジン。
+ * ブラウザの自動再生制限があるため、unlock されるまでは何も鳴らさない。
+ */
+export const createSoundEngine = (settings: AudioSettings = DEFAULT_AUDIO_SETTINGS): SoundEngine => {
+    let context: AudioContext | null = null;
+    let master: GainNode | null = null;
+    let buses: Record<Bus, GainNode> | null = null;
+    let rumble: { gain: GainNode; filter: BiquadFilterNode } | null = null;
+    let current = settings;
+
+    const applyGains = () => {
+        if (!context || !master || !buses) return;
+        const now = context.currentTime;
+        master.gain.setTargetAtTime(current.muted ? 0 : current.master * OUTPUT_GAIN, now, 0.02);
+        buses.music.gain.setTargetAtTime(current.music, now, 0.02);
+        buses.sfx.gain.setTargetAtTime(current.sfx, now, 0.02);
+    };
+
+    // ホワイトノイズをローパスに通した低いゴーっという音
+    const createRumble = (ctx: AudioContext, output: AudioNode) => {
+        const buffer = ctx.createBuffer(1, ctx.sampleRate * NOISE_SECONDS, ctx.sampleRate);
+        const data = buffer.getChannelData(0);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = Math.random() * 2 - 1;
+        }
+
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.loop = true;
+
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 200;
+
+        const gain = ctx.createGain();
+        gain.gain.value = 0;
+
+        source.connect(filter).connect(gain).connect(output);
+        source.start();
+        return { gain, filter };
+    };
+
+    const unlock = () => {
+        if (!context) {
+            const AudioContextClass = window.AudioContext;
+            if (!AudioContextClass) return;
+
+            context = new AudioContextClass();
+            master = context.createGain();
+            master.connect(context.destination);
+            buses = { music: context.createGain(), sfx: context.createGain() };
+            buses.music.connect(master);
+            buses.sfx.connect(master);
+            rumble = createRumble(context, buses.sfx);
+            applyGains();
+        }
+        if (context.state === 'suspended') {
+            void context.resume();
+        }
+    };
+
+    const tone = ({
+        frequency,
+        endFrequency,
+        duration,
+        type = 'square',
+        volume = 0.5,
+        bus = 'sfx',
+        at
+    }: ToneOptions) => {
+        if (!context || !buses || context.state !== 'running') return;
+
+        const start = at ?? context.currentTime;
+        const oscillator = context.createOscillator();
+        const envelope = context.createGain();
+
+        oscillator.type = type;
+        oscillator.frequency.setValueAtTime(frequency, start);
+        if (endFrequency !== undefined) {
+            oscillator.frequency.exponentialRampToValueAtTime(endFrequency, start + duration);
+        }
+
+        // 短いアタックと減衰でプチノイズを防ぐ
+        envelope.gain.setValueAtTime(0, start);
+        envelope.gain.linearRampToValueAtTime(volume, start + 0.005);
+        envelope.gain.exponentialRampToValueAtTime(0.001, start + duration);
+
+        oscillator.connect(envelope).connect(buses[bus]);
+        oscillator.start(start);
+        oscillator.stop(start + duration + 0.02);
+    };
+
+    return {
+        unlock,
+        applySettings: (next) => {
+            current = next;
+            applyGains();
+        },
+        tone,
+        setRumble: (level) => {
+            if (!context || !rumble) return;
+            const now = context.currentTime;
+            rumble.gain.gain.setTargetAtTime(level * 0.8, now, 0.08);
+            rumble.filter.frequency.setTargetAtTime(150 + level * 700, now, 0.08);
+        },
+        currentTime: () => (context && context.state === 'running' ? context.currentTime : null),
+        close: () => {
+            void context?.close();
+            context = null;
+            master = null;
+            buses = null;
+            rumble = null;
+        }
+    };
+};
+
+// MIDIノート番号を周波数に変換
+export const noteToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
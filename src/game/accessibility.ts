@@ -0,0 +1,51 @@
+// 連打のかわりに使える入力方式。mash 以外は補助入力としてランキングを分ける
+export type InputMode = 'mash' | 'hold' | 'rhythm';
+
+export const INPUT_MODES: readonly InputMode[] = ['mash', 'hold', 'rhythm'];
+
+export interface AccessibilitySettings {
+    // 画面の揺れをなくし、文字の点滅を止める
+    reducedMotion: boolean;
+    // 画面全体の明滅を弱く穏やかにし、文字の点滅を遅くする
+    reducedFlash: boolean;
+    // 画面の揺れの強さ（0〜1）
+    shakeStrength: number;
+    inputMode: InputMode;
+}
+
+// 設定画面で揺れの強さを変える刻み
+export const SHAKE_STRENGTH_STEP = 0.25;
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+    reducedMotion: false,
+    reducedFlash: false,
+    shakeStrength: 1,
+    inputMode: 'mash'
+};
+
+/**
+ * 保存された設定がないときの既定値。OS で視差効果を減らす設定（prefers-reduced-motion）に
+ * していれば、揺れと明滅を抑えた状態から始める。
+ */
+export const defaultAccessibilitySettings = (prefersReducedMotion: boolean): AccessibilitySettings =>
+    prefersReducedMotion
+        ? { ...DEFAULT_ACCESSIBILITY_SETTINGS, reducedMotion: true, reducedFlash: true, shakeStrength: 0 }
+        : DEFAULT_ACCESSIBILITY_SETTINGS;
+
+// 永続化の窓口（ブラウザでは localStorage、テストなどではメモリ）
+export interface AccessibilitySettingsStore {
+    load: () => AccessibilitySettings;
+    save: (settings: AccessibilitySettings) => void;
+}
+
+export const createMemoryAccessibilitySettingsStore = (
+    initial: AccessibilitySettings = DEFAULT_ACCESSIBILITY_SETTINGS
+): AccessibilitySettingsStore => {
+    let saved = initial;
+    return {
+        load: () => saved,
+        save: (settings) => {
+            saved = settings;
+        }
+    };
+};
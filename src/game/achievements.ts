@@ -0,0 +1,162 @@
+import type { RocketPalette } from './catalog';
+import type { GameEvent } from './events';
+import { layerAt } from './flight';
+import type { GameState } from './types';
+
+export type AchievementId = 'quickCharge' | 'steadyThrust' | 'exosphere' | 'veteran';
+
+export const ACHIEVEMENT_IDS: readonly AchievementId[] = ['quickCharge', 'steadyThrust', 'exosphere', 'veteran'];
+
+// 最初の連打から満タンまでの目標（ms）
+export const QUICK_CHARGE_MS = 5000;
+// 打ち上げに成功した回数の目標
+export const VETERAN_LAUNCHES = 10;
+
+// ロケットの塗装。stock は機体ごとの標準の配色で、ほかは実績を解除すると使える
+export type RocketPaintId = 'stock' | 'ember' | 'chrome' | 'aurora' | 'gold';
+
+export const ROCKET_PAINT_IDS: readonly RocketPaintId[] = ['stock', 'ember', 'chrome', 'aurora', 'gold'];
+
+export const ACHIEVEMENT_PAINTS: Record<AchievementId, Exclude<RocketPaintId, 'stock'>> = {
+    quickCharge: 'ember',
+    steadyThrust: 'chrome',
+    exosphere: 'aurora',
+    veteran: 'gold'
+};
+
+export const ROCKET_PAINTS: Record<Exclude<RocketPaintId, 'stock'>, RocketPalette> = {
+    ember: { body: '#442222', window: '#FFCC66', nose: '#FF6622', fins: '#AA2200', flame: ['#FF2200', '#FFCC00'] },
+    chrome: { body: '#F4F8FF', window: '#3366AA', nose: '#A0A8B8', fins: '#687080', flame: ['#66CCFF', '#FFFFFF'] },
+    aurora: { body: '#224466', window: '#AAFFDD', nose: '#44FFAA', fins: '#AA66FF', flame: ['#44FFAA', '#AA66FF'] },
+    gold: { body: '#FFD040', window: '#FFFFFF', nose: '#FFF4A0', fins: '#B08000', flame: ['#FF8800', '#FFFF88'] }
+};
+
+export interface AchievementRecord {
+    // 解除した実績と解除した日時（Date.now() の値）
+    unlocked: Partial<Record<AchievementId, number>>;
+    // 打ち上げに成功した回数（プレイをまたいで数える）
+    launches: number;
+    // 選んでいる塗装
+    paint: RocketPaintId;
+}
+
+export const EMPTY_ACHIEVEMENT_RECORD: AchievementRecord = { unlocked: {}, launches: 0, paint: 'stock' };
+
+// 1回のプレイの中で実績の条件を見るための途中経過
+export interface AchievementRun {
+    // 最初に燃料が増えたステップの開始時刻
+    firstChargeTime: number | null;
+    // 打ち上げシーンのゲージのこれまでの最大
+    peakShake: number;
+    // ゲージが最大から連打1回分より大きく下がったか
+    isGaugeDropped: boolean;
+}
+
+export const createAchievementRun = (): AchievementRun => ({
+    firstChargeTime: null,
+    peakShake: 0,
+    isGaugeDropped: false
+});
+
+/**
+ * 1ステップの前後の状態と出来事から、このステップで条件を満たした実績を返す（解除済みかどうかは見ない）。
+ * 打ち上げのゲージは連打の合間にも少しずつ下がるので、最大から連打1回分以内の下がりは落ちたことにしない。
+ * 打ち上げ回数の実績は記録に残した回数で決めるので recordAchievements で扱う。
+ */
+export const trackAchievements = (
+    run: AchievementRun,
+    prev: GameState,
+    next: GameState,
+    events: GameEvent[]
+): AchievementId[] => {
+    if (next.scene === 'launch' && next.isLaunching) {
+        run.peakShake = Math.max(run.peakShake, next.shakeIntensity);
+        if (next.shakeIntensity < run.peakShake - next.config.shakePerMash) run.isGaugeDropped = true;
+    }
+
+    const earned: AchievementId[] = [];
+    events.forEach(event => {
+        switch (event.type) {
+            case 'charge':
+                if (run.firstChargeTime === null) run.firstChargeTime = prev.time;
+                break;
+            case 'fullPower':
+                if (run.firstChargeTime !== null && next.fullPowerTime - run.firstChargeTime < QUICK_CHARGE_MS) {
+                    earned.push('quickCharge');
+                }
+                break;
+            case 'launchSuccess':
+                if (!run.isGaugeDropped) earned.push('steadyThrust');
+                break;
+            case 'climb':
+                if (layerAt(event.altitude) === 'EXOSPHERE') earned.push('exosphere');
+                break;
+        }
+    });
+    return earned;
+};
+
+/**
+ * このステップで満たした実績と打ち上げに成功した回数を記録に足す。
+ * 戻り値の unlocked は新しく解除した実績（ACHIEVEMENT_IDS の順）。
+ */
+export const recordAchievements = (
+    record: AchievementRecord,
+    earned: AchievementId[],
+    launches: number,
+    now: number
+) => {
+    const total = record.launches + launches;
+    const candidates: AchievementId[] = total >= VETERAN_LAUNCHES ? [...earned, 'veteran'] : earned;
+    const unlocked = ACHIEVEMENT_IDS.filter(id => candidates.includes(id) && record.unlocked[id] === undefined);
+    return {
+        record: {
+            ...record,
+            launches: total,
+            unlocked: { ...record.unlocked, ...Object.fromEntries(unlocked.map(id => [id, now])) }
+        },
+        unlocked
+    };
+};
+
+// 選べる塗装（ROCKET_PAINT_IDS の順）
+export const availablePaints = (record: AchievementRecord): RocketPaintId[] =>
+    ROCKET_PAINT_IDS.filter(paint =>
+        paint === 'stock' || ACHIEVEMENT_IDS.some(id => ACHIEVEMENT_PAINTS[id] === paint && record.unlocked[id] !== undefined)
+    );
+
+// 塗装の配色。stock なら null（機体の標準の配色を使う）
+export const paintPalette = (paint: RocketPaintId): RocketPalette | null => (paint === 'stock' ? null : ROCKET_PAINTS[paint]);
+
+// 解除を知らせるトーストを出しておく時間（ms）
+export const TOAST_MS = 3000;
+
+// 解除した実績の知らせ。先頭から1つずつ出す
+export interface AchievementToast {
+    id: AchievementId;
+    // 表示し始めてからの時間（ms）
+    elapsed: number;
+}
+
+// 先頭のトーストの時間を進め、出し終わったものを外す
+export const advanceToasts = (toasts: AchievementToast[], dtMs: number) => {
+    if (toasts.length === 0) return;
+    toasts[0].elapsed += dtMs;
+    if (toasts[0].elapsed >= TOAST_MS) toasts.shift();
+};
+
+// 永続化の窓口（ブラウザでは localStorage、テストなどではメモリ）
+export interface AchievementStore {
+    load: () => AchievementRecord;
+    save: (record: AchievementRecord) => void;
+}
+
+export const createMemoryAchievementStore = (initial: AchievementRecord = EMPTY_ACHIEVEMENT_RECORD): AchievementStore => {
+    let saved = initial;
+    return {
+        load: () => saved,
+        save: (record) => {
+            saved = record;
+        }
+    };
+};
@@ -0,0 +1,57 @@
+import { shakeThreshold } from './simulation';
+import type { InputMode } from './accessibility';
+import type { GameState } from './types';
+
+// リズム入力で1回押すと連打が続く時間（2回/秒のペースで押せば途切れない）
+export const RHYTHM_BEAT_MS = 500;
+// 補助入力の連打の速さに持たせる余裕（制限時間の何割で最大出力に届くか）
+const ASSIST_MARGIN = 1.5;
+
+// 補助入力が作る連打の端数と、リズム入力の残り時間
+export interface InputAssist {
+    carry: number;
+    beatLeftMs: number;
+}
+
+export const createInputAssist = (): InputAssist => ({ carry: 0, beatLeftMs: 0 });
+
+/**
+ * 補助入力が作る連打の速さ（回/秒）。揺れの減衰を上回り、
+ * 打ち上げの制限時間に余裕を持って最大出力に届く速さを調整値と機体から決める。
+ */
+export const assistRate = (state: GameState) => {
+    const { config } = state;
+    const climbPerSecond = ASSIST_MARGIN * shakeThreshold(state) / (config.launchTimeLimitMs / 1000);
+    return (config.shakeDecayPerSecond + climbPerSecond) / config.shakePerMash;
+};
+
+/**
+ * 入力方式に応じて、このステップの連打の回数を決める。
+ * hold は押している間、rhythm は押してから RHYTHM_BEAT_MS の間だけ assistRate で連打したことにする。
+ * 軌道投入はタイミングを合わせる1回の押下なので、どの方式でも押した回数そのまま。
+ */
+export const assistMashes = (
+    assist: InputAssist,
+    mode: InputMode,
+    state: GameState,
+    input: { mashes: number; holding: boolean },
+    dtMs: number
+) => {
+    if (mode === 'mash' || state.scene === 'orbit' || state.isExploded || state.isFailed) {
+        assist.carry = 0;
+        return input.mashes;
+    }
+
+    if (input.mashes > 0) assist.beatLeftMs = RHYTHM_BEAT_MS;
+    const isActive = mode === 'hold' ? input.holding : assist.beatLeftMs > 0;
+    assist.beatLeftMs = Math.max(assist.beatLeftMs - dtMs, 0);
+    if (!isActive) {
+        assist.carry = 0;
+        return 0;
+    }
+
+    assist.carry += assistRate(state) * dtMs / 1000;
+    const mashes = Math.floor(assist.carry);
+    assist.carry -= mashes;
+    return mashes;
+};
@@ -0,0 +1,192 @@
+// ロケットと発射場のカタログ
+
+export type RocketId = 'standard' | 'heavy' | 'dart';
+
+export type SiteId = 'coast' | 'desert' | 'tundra';
+
+export interface RocketPalette {
+    body: string;
+    window: string;
+    nose: string;
+    fins: string;
+    // 炎の根元側と先端側
+    flame: [string, string];
+}
+
+export interface RocketSpec {
+    id: RocketId;
+    name: string;
+    palette: RocketPalette;
+    // 胴体の大きさ（px）。先端とフィンはこれに合わせて描く
+    width: number;
+    height: number;
+    // 燃料タンクの容量（標準機が 100）。大きいほど満タンまでの連打が増える
+    fuelCapacity: number;
+    // 連打1回あたりの推力の倍率（config.thrustPerTps に掛ける）
+    thrustPerPress: number;
+    // 打ち上げ成功に必要な揺れの倍率（config.maxShake に掛ける）
+    shakeThreshold: number;
+    // 質量（t）
+    mass: number;
+    // 抗力係数×前面投影面積（m²）
+    drag: number;
+}
+
+// 大気圏シーンの空の色。高度（m）の間は色を補間する
+export interface AtmosphereLayer {
+    color: string;
+    altitude: number;
+    mixColor: string;
+}
+
+// 発射台の配色
+export interface PadPalette {
+    strut: string;
+    strutDetail: string;
+    brace: string;
+    braceDetail: string;
+    base: string;
+    baseDetail: string;
+}
+
+export interface LaunchSite {
+    id: SiteId;
+    ground: string;
+    // 地上シーンの夜空と、大気圏を抜けた先の宇宙
+    sky: string;
+    space: string;
+    pad: PadPalette;
+    // 高度の高い順に宇宙空間〜地表
+    layers: AtmosphereLayer[];
+}
+
+// 燃料容量の基準（この容量で config.powerPerMash がそのまま効く）
+export const STANDARD_FUEL_CAPACITY = 100;
+
+export const ROCKET_IDS: RocketId[] = ['standard', 'heavy', 'dart'];
+
+export const SITE_IDS: SiteId[] = ['coast', 'desert', 'tundra'];
+
+export const ROCKETS: Record<RocketId, RocketSpec> = {
+    standard: {
+        id: 'standard',
+        name: 'PIXEL-1',
+        palette: { body: '#E0E0E0', window: '#66CCFF', nose: '#FF4444', fins: '#CC0000', flame: ['#FF4400', '#FF8800'] },
+        width: 32,
+        height: 64,
+        fuelCapacity: 100,
+        thrustPerPress: 1,
+        shakeThreshold: 1,
+        mass: 20,
+        drag: 2
+    },
+    // タンクが大きく重く、推力は強いが空気抵抗も大きい
+    heavy: {
+        id: 'heavy',
+        name: 'TITAN',
+        palette: { body: '#D8C8A0', window: '#88DDFF', nose: '#FF8800', fins: '#996633', flame: ['#FF2200', '#FFAA00'] },
+        width: 40,
+        height: 80,
+        fuelCapacity: 140,
+        thrustPerPress: 1.3,
+        shakeThreshold: 1.2,
+        mass: 32,
+        drag: 3.2
+    },
+    // すぐ満タンになり軽くて細いが、推力は弱い
+    dart: {
+        id: 'dart',
+        name: 'DART',
+        palette: { body: '#C0D0FF', window: '#FFFF88', nose: '#4466FF', fins: '#2233AA', flame: ['#44AAFF', '#FFFFFF'] },
+        width: 24,
+        height: 56,
+        fuelCapacity: 75,
+        thrustPerPress: 0.85,
+        shakeThreshold: 0.85,
+        mass: 14,
+        drag: 1.2
+    }
+};
+
+export const LAUNCH_SITES: Record<SiteId, LaunchSite> = {
+    coast: {
+        id: 'coast',
+        ground: '#4A593D',
+        sky: '#111111',
+        space: '#000022',
+        pad: {
+            strut: '#555555',
+            strutDetail: '#444444',
+            brace: '#666666',
+            braceDetail: '#777777',
+            base: '#444444',
+            baseDetail: '#333333'
+        },
+        layers: [
+            { color: '#000044', altitude: 1000000, mixColor: '#000066' }, // 宇宙空間
+            { color: '#000088', altitude: 600000, mixColor: '#0022AA' },  // 外気圏
+            { color: '#0044CC', altitude: 85000, mixColor: '#0066DD' },   // 中間圏上部
+            { color: '#0066FF', altitude: 50000, mixColor: '#4488FF' },   // 中間圏下部
+            { color: '#4488FF', altitude: 30000, mixColor: '#66AAFF' },   // 成層圏上部
+            { color: '#99CCFF', altitude: 12000, mixColor: '#AADDFF' },   // 成層圏下部
+            { color: '#FF99AA', altitude: 4000, mixColor: '#FFAACC' },    // 対流圏
+            { color: '#4A593D', altitude: 0, mixColor: '#556B48' }        // 地球表面
+        ]
+    },
+    desert: {
+        id: 'desert',
+        ground: '#B08850',
+        sky: '#1A1020',
+        space: '#100018',
+        pad: {
+            strut: '#775544',
+            strutDetail: '#664433',
+            brace: '#886655',
+            braceDetail: '#997766',
+            base: '#664433',
+            baseDetail: '#553322'
+        },
+        layers: [
+            { color: '#220033', altitude: 1000000, mixColor: '#330044' },
+            { color: '#440066', altitude: 600000, mixColor: '#552277' },
+            { color: '#883388', altitude: 85000, mixColor: '#994499' },
+            { color: '#CC5566', altitude: 50000, mixColor: '#DD6677' },
+            { color: '#FF8855', altitude: 30000, mixColor: '#FF9966' },
+            { color: '#FFBB77', altitude: 12000, mixColor: '#FFCC88' },
+            { color: '#FFDDAA', altitude: 4000, mixColor: '#FFEEBB' },
+            { color: '#B08850', altitude: 0, mixColor: '#C09860' }
+        ]
+    },
+    tundra: {
+        id: 'tundra',
+        ground: '#D8E4EC',
+        sky: '#081018',
+        space: '#000811',
+        pad: {
+            strut: '#5A6A7A',
+            strutDetail: '#4A5A6A',
+            brace: '#6A7A8A',
+            braceDetail: '#7A8A9A',
+            base: '#4A5A6A',
+            baseDetail: '#3A4A5A'
+        },
+        layers: [
+            { color: '#001122', altitude: 1000000, mixColor: '#002233' },
+            { color: '#003344', altitude: 600000, mixColor: '#114455' },
+            { color: '#116655', altitude: 85000, mixColor: '#227766' },
+            { color: '#33AA88', altitude: 50000, mixColor: '#44BB99' },
+            { color: '#66CCDD', altitude: 30000, mixColor: '#77DDEE' },
+            { color: '#AADDFF', altitude: 12000, mixColor: '#BBEEFF' },
+            { color: '#DDEEFF', altitude: 4000, mixColor: '#EEF4FF' },
+            { color: '#D8E4EC', altitude: 0, mixColor: '#E4EEF4' }
+        ]
+    }
+};
+
+// プレイヤーが選んだロケットと発射場
+export interface Loadout {
+    rocket: RocketId;
+    site: SiteId;
+}
+
+export const DEFAULT_LOADOUT: Loadout = { rocket: 'standard', site: 'coast' };
@@ -0,0 +1,166 @@
+// ゲームバランスの調整値
+export interface GameConfig {
+    // 連打1回で増える燃料（%）
+    powerPerMash: number;
+    // 連打1回で増える揺れ（出力）
+    shakePerMash: number;
+    // この揺れに達すると打ち上げ成功
+    maxShake: number;
+    // 1秒あたりの揺れの減衰量
+    shakeDecayPerSecond: number;
+    // 1秒あたり1回の連打で出る推力（kN）
+    thrustPerTps: number;
+    // 各カウントダウンの長さ（ms）
+    countdownMs: number;
+    // カウントダウン終了後、最大出力に届くまでの制限時間（ms）
+    launchTimeLimitMs: number;
+    // 大気圏シーンでこの高度（km）に届くと軌道投入シーンに移る
+    orbitAltitudeKm: number;
+    // 軌道投入シーンで操作のタイミングが来る間隔（ms）
+    orbitBeatMs: number;
+    // タイミングの前後にどれだけずれても判定されるか（ms）
+    orbitWindowMs: number;
+    // 軌道投入の成功に必要な平均の正確さ（0〜1）
+    orbitPassAccuracy: number;
+}
+
+export type PresetId = 'easy' | 'normal' | 'hard' | 'custom';
+
+export const PRESET_IDS: readonly PresetId[] = ['easy', 'normal', 'hard', 'custom'];
+
+// 元々の調整値
+export const NORMAL_CONFIG: GameConfig = {
+    powerPerMash: 2,
+    shakePerMash: 0.2,
+    maxShake: 8,
+    shakeDecayPerSecond: 2,
+    thrustPerTps: 46,
+    countdownMs: 3000,
+    launchTimeLimitMs: 20000,
+    orbitAltitudeKm: 700,
+    orbitBeatMs: 1200,
+    orbitWindowMs: 300,
+    orbitPassAccuracy: 0.5
+};
+
+export const PRESETS: Record<Exclude<PresetId, 'custom'>, GameConfig> = {
+    easy: {
+        ...NORMAL_CONFIG,
+        powerPerMash: 4,
+        shakePerMash: 0.3,
+        shakeDecayPerSecond: 1.2,
+        thrustPerTps: 60,
+        launchTimeLimitMs: 30000,
+        orbitBeatMs: 1500,
+        orbitWindowMs: 300,
+        orbitPassAccuracy: 0.35
+    },
+    normal: NORMAL_CONFIG,
+    hard: {
+        ...NORMAL_CONFIG,
+        powerPerMash: 1,
+        shakePerMash: 0.15,
+        shakeDecayPerSecond: 2.5,
+        thrustPerTps: 40,
+        launchTimeLimitMs: 15000,
+        orbitBeatMs: 1000,
+        orbitWindowMs: 220,
+        orbitPassAccuracy: 0.6
+    }
+};
+
+// 難易度の選択状態（custom のときは customConfig を使う）
+export interface Difficulty {
+    preset: PresetId;
+    customConfig: GameConfig;
+}
+
+export const DEFAULT_DIFFICULTY: Difficulty = { preset: 'normal', customConfig: NORMAL_CONFIG };
+
+export const configFor = (difficulty: Difficulty): GameConfig =>
+    difficulty.preset === 'custom' ? difficulty.customConfig : PRESETS[difficulty.preset];
+
+// 設定画面で編集できる範囲と刻み幅（表示名は言語ごとのメッセージにある）
+export interface ConfigField {
+    key: keyof GameConfig;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export const CONFIG_FIELDS: readonly ConfigField[] = [
+    { key: 'powerPerMash', min: 0.5, max: 20, step: 0.5 },
+    { key: 'shakePerMash', min: 0.05, max: 2, step: 0.05 },
+    { key: 'maxShake', min: 1, max: 20, step: 1 },
+    { key: 'shakeDecayPerSecond', min: 0, max: 10, step: 0.1 },
+    { key: 'thrustPerTps', min: 10, max: 120, step: 2 },
+    { key: 'countdownMs', min: 1000, max: 5000, step: 1000 },
+    { key: 'launchTimeLimitMs', min: 5000, max: 60000, step: 1000 },
+    { key: 'orbitAltitudeKm', min: 100, max: 1000, step: 50 },
+    { key: 'orbitBeatMs', min: 600, max: 3000, step: 100 },
+    { key: 'orbitWindowMs', min: 100, max: 300, step: 20 },
+    { key: 'orbitPassAccuracy', min: 0.1, max: 0.9, step: 0.05 }
+];
+
+export class ConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid game config: ${problems.join(', ')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * 保存データなど外から来た値を GameConfig として検証する。
+ * 欠けている・範囲外の項目があれば ConfigError を投げる。
+ */
+export const validateConfig = (value: unknown): GameConfig => {
+    if (typeof value !== 'object' || value === null) {
+        throw new ConfigError(['not an object']);
+    }
+
+    const data = value as Record<string, unknown>;
+    const problems: string[] = [];
+    const config = { ...NORMAL_CONFIG };
+
+    CONFIG_FIELDS.forEach(({ key, min, max }) => {
+        const field = data[key];
+        if (typeof field !== 'number' || !Number.isFinite(field)) {
+            problems.push(`${key} is not a number`);
+        } else if (field < min || field > max) {
+            problems.push(`${key} is out of range (${min}-${max})`);
+        } else {
+            config[key] = field;
+        }
+    });
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+    return config;
+};
+
+// 値を刻み幅に合わせて範囲内に収める
+export const adjustField = (config: GameConfig, field: ConfigField, direction: 1 | -1): GameConfig => {
+    const value = config[field.key] + field.step * direction;
+    const rounded = Math.round(value / field.step) * field.step;
+    return {
+        ...config,
+        [field.key]: Math.min(Math.max(Number(rounded.toFixed(4)), field.min), field.max)
+    };
+};
+
+// 設定の永続化の窓口
+export interface DifficultyStore {
+    load: () => Difficulty;
+    save: (difficulty: Difficulty) => void;
+}
+
+export const createMemoryDifficultyStore = (): DifficultyStore => {
+    let saved = DEFAULT_DIFFICULTY;
+    return {
+        load: () => saved,
+        save: (difficulty) => {
+            saved = difficulty;
+        }
+    };
+};
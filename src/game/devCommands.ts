@@ -0,0 +1,159 @@
+import { ATMOSPHERE_LAYERS } from './flight';
+import { MAX_POWER } from './simulation';
+import { flagRun } from './mashValidator';
+import type { Session } from './lifecycle';
+import type { GameLoop } from './loop';
+import type { GameScene, GameState } from './types';
+
+// 調整用の開発コマンド（デバッグ表示のキー操作とブラウザのコンソールから使う）
+export type DevCommand =
+    | { type: 'jumpToScene'; scene: GameScene }
+    | { type: 'setPower'; power: number }
+    | { type: 'setAltitude'; altitude: number }
+    | { type: 'setTimeScale'; scale: number }
+    | { type: 'changeTimeScale'; direction: -1 | 1 }
+    | { type: 'togglePause' }
+    | { type: 'stepFrame' };
+
+// [ ] キーで切り替える速さ
+export const TIME_SCALES = [0.1, 0.25, 0.5, 1, 2, 4];
+
+// 数字キーで飛べる高度（各層の境目、m）
+export const LAYER_ALTITUDES = ATMOSPHERE_LAYERS.map(layer => layer.top).filter(Number.isFinite);
+
+// 各シーンの途中まで進んだ記録を消して、発射前の状態に戻す
+const rewind = (state: GameState): GameState => ({
+    ...state,
+    scene: 'power',
+    power: 0,
+    rocketY: 0,
+    altitude: 0,
+    velocity: 0,
+    isExploded: false,
+    isFailed: false,
+    endTime: 0,
+    isFullPower: false,
+    fullPowerTime: 0,
+    launchStartTime: 0,
+    isLaunching: false,
+    shakeIntensity: 0,
+    isLaunchSuccess: false,
+    atmosphereStartTime: 0,
+    orbitStartTime: 0,
+    orbitJudgements: []
+});
+
+/**
+ * scene の始まりに飛ぶ。それより前のシーンは成功したことにし、
+ * カウントダウンは済ませた状態にする（大気圏シーンの演出も飛ばす）。
+ */
+export const jumpToScene = (state: GameState, scene: GameScene): GameState => {
+    const { time, config } = state;
+    const powerScene = rewind(state);
+    if (scene === 'power') return powerScene;
+
+    const launchScene: GameState = {
+        ...powerScene,
+        scene: 'launch',
+        power: MAX_POWER,
+        isFullPower: true,
+        fullPowerTime: time - config.countdownMs * 2,
+        launchStartTime: time - config.countdownMs
+    };
+    if (scene === 'launch') return launchScene;
+
+    const atmosphereScene: GameState = {
+        ...launchScene,
+        scene: 'atmosphere',
+        isLaunching: true,
+        isLaunchSuccess: true,
+        atmosphereStartTime: time - config.countdownMs
+    };
+    if (scene === 'atmosphere') return atmosphereScene;
+
+    return {
+        ...atmosphereScene,
+        scene: 'orbit',
+        altitude: state.missionAltitude,
+        orbitStartTime: time
+    };
+};
+
+// 燃料を power にする。満タンにすれば発射のカウントダウンが始まる
+export const setPower = (state: GameState, power: number): GameState => {
+    if (state.scene !== 'power' || state.isFullPower) return state;
+    const next = Math.min(Math.max(power, 0), MAX_POWER);
+    const isFullPower = next >= MAX_POWER;
+    return { ...state, power: next, isFullPower, fullPowerTime: isFullPower ? state.time : state.fullPowerTime };
+};
+
+// 高度を altitude にする。大気圏シーンでミッション高度を超えれば次のステップで軌道投入に移る
+export const setAltitude = (state: GameState, altitude: number): GameState => ({
+    ...state,
+    altitude: Math.max(altitude, 0)
+});
+
+const changeTimeScale = (loop: GameLoop, direction: -1 | 1) => {
+    const index = TIME_SCALES.findIndex(scale => scale >= loop.timeScale());
+    const current = index === -1 ? TIME_SCALES.length - 1 : index;
+    loop.setTimeScale(TIME_SCALES[Math.min(Math.max(current + direction, 0), TIME_SCALES.length - 1)]);
+};
+
+// 記録に残るプレイの途中か（リプレイの再生は記録に残らない）
+const isRecordedPlay = (session: Session) => session.screen === 'play' && !session.playback;
+
+/**
+ * 開発コマンドを実行する。時間の操作はいつでも効き、状態の書き換えはプレイ中（再生中を除く）だけ効く。
+ * 状態を書き換えたプレイはランキングにもリプレイにも残さない。
+ * 時間の操作も1ステップあたりの連打の数が変わるので、プレイ中に使えば同じ扱いにする。
+ */
+export const applyDevCommand = (session: Session, loop: GameLoop, command: DevCommand) => {
+    switch (command.type) {
+        case 'setTimeScale':
+            loop.setTimeScale(command.scale);
+            break;
+        case 'changeTimeScale':
+            changeTimeScale(loop, command.direction);
+            break;
+        case 'togglePause':
+            loop.setPaused(!loop.isPaused());
+            break;
+        case 'stepFrame':
+            loop.setPaused(true);
+            loop.stepOnce();
+            break;
+        default: {
+            if (!isRecordedPlay(session)) return;
+
+            const { state } = session;
+            const next = command.type === 'jumpToScene'
+                ? jumpToScene(state, command.scene)
+                : command.type === 'setPower'
+                    ? setPower(state, command.power)
+                    : setAltitude(state, command.altitude);
+
+            session.previous = next;
+            session.state = next;
+        }
+    }
+
+    if (isRecordedPlay(session)) flagRun(session.validator, 'debug');
+};
+
+// プレイの前に時間の倍率を変えたまま始めたプレイも記録に残さない（ステップのたびに呼ぶ）
+export const flagTimeScaledRun = (session: Session, loop: GameLoop) => {
+    if (loop.timeScale() !== 1 && isRecordedPlay(session)) flagRun(session.validator, 'debug');
+};
+
+/**
+ * ブラウザのコンソールから呼ぶための関数群（開発ビルドで window.rendaDev に置く）。
+ * 例: rendaDev.jump('orbit'), rendaDev.altitude(85000), rendaDev.speed(0.25)
+ */
+export const createDevConsole = (run: (command: DevCommand) => void) => ({
+    jump: (scene: GameScene) => run({ type: 'jumpToScene', scene }),
+    power: (power: number) => run({ type: 'setPower', power }),
+    altitude: (altitude: number) => run({ type: 'setAltitude', altitude }),
+    speed: (scale: number) => run({ type: 'setTimeScale', scale }),
+    pause: () => run({ type: 'togglePause' }),
+    step: () => run({ type: 'stepFrame' })
+});
@@ -0,0 +1,187 @@
+import type { GameState } from './types';
+import { ORBIT_STAGES, thrustRatio } from './simulation';
+import {
+    createEmitter,
+    createParticlePool,
+    emit,
+    updateParticles,
+    type Emitter,
+    type ParticlePool
+} from './particles';
+
+const POOL_SIZE = 600;
+
+// 発射台の上に立つロケットの底（噴射口）のワールド座標（y）
+export const ROCKET_BASE_Y = -16;
+
+// 段間分離のあとに残る上段の高さの割合
+export const UPPER_STAGE_RATIO = 0.6;
+
+// 軌道投入の噴射を続ける時間（ms）
+export const ORBIT_BURN_MS = 1500;
+
+export interface Effects {
+    pool: ParticlePool;
+    smoke: Emitter;
+    exhaust: Emitter;
+    fire: Emitter;
+    sparks: Emitter;
+    charge: Emitter;
+}
+
+export const createEffects = (): Effects => ({
+    pool: createParticlePool(POOL_SIZE),
+    // 発射台に広がるもこもこした煙
+    smoke: createEmitter({
+        rate: 90,
+        angle: Math.PI / 2,
+        spread: Math.PI * 1.4,
+        speed: [40, 160],
+        life: [1200, 2600],
+        size: [12, 24],
+        jitter: 20,
+        growth: 2.2,
+        gravity: -12,
+        drag: 0.85,
+        palette: [
+            'rgba(255, 255, 255, 0.6)',
+            'rgba(240, 240, 240, 0.45)',
+            'rgba(220, 220, 220, 0.3)',
+            'rgba(200, 200, 200, 0.15)'
+        ],
+        shape: 'circle'
+    }),
+    // 上昇中に残る細い排気の筋
+    exhaust: createEmitter({
+        rate: 40,
+        angle: Math.PI / 2,
+        spread: Math.PI / 6,
+        speed: [20, 60],
+        life: [800, 1600],
+        size: [6, 12],
+        jitter: 8,
+        growth: 1.8,
+        gravity: 0,
+        drag: 0.6,
+        palette: [
+            'rgba(255, 255, 255, 0.5)',
+            'rgba(230, 230, 230, 0.3)',
+            'rgba(200, 200, 200, 0.12)'
+        ],
+        shape: 'circle'
+    }),
+    // 噴射口直下の炎
+    fire: createEmitter({
+        rate: 120,
+        angle: Math.PI / 2,
+        spread: Math.PI / 3,
+        speed: [120, 260],
+        life: [150, 350],
+        size: [5, 12],
+        jitter: 10,
+        growth: 0.4,
+        gravity: 0,
+        drag: 0.9,
+        palette: ['#FFFFFF', '#FFFF00', '#FF8800', '#FF4400'],
+        shape: 'circle'
+    }),
+    // 飛び散る火花
+    sparks: createEmitter({
+        rate: 30,
+        angle: Math.PI / 2,
+        spread: Math.PI,
+        speed: [150, 350],
+        life: [300, 700],
+        size: [2, 3],
+        jitter: 6,
+        growth: 1,
+        gravity: 600,
+        drag: 0.5,
+        palette: ['#FFFF88', '#FFCC00', '#FF8800'],
+        shape: 'pixel'
+    }),
+    // フルパワー時にロケットの周りを舞うエネルギー
+    charge: createEmitter({
+        rate: 25,
+        angle: -Math.PI / 2,
+        spread: Math.PI * 2,
+        speed: [30, 80],
+        life: [500, 900],
+        size: [3, 4],
+        jitter: 80,
+        growth: 1,
+        gravity: -40,
+        drag: 0.3,
+        palette: ['#FFFFFF', '#FFFF00', '#FFCC00'],
+        shape: 'pixel'
+    })
+});
+
+// 噴射口のワールド座標（y）
+export const nozzleY = (state: GameState) => ROCKET_BASE_Y - state.rocketY;
+
+// ロケット胴体の上端のワールド座標（y）。機体ごとに高さが違う
+export const rocketTopY = (state: GameState) => nozzleY(state) - state.rocket.height;
+
+// 今噴射しているエンジンのワールド座標（y）。段間分離のあとは上段の底になる
+export const engineY = (state: GameState) =>
+    state.orbitJudgements.length > 0
+        ? rocketTopY(state) + state.rocket.height * UPPER_STAGE_RATIO
+        : nozzleY(state);
+
+// 軌道投入の噴射中か（タイミングを外したら噴射しない）
+export const isOrbitBurning = (state: GameState) => {
+    const burn = state.orbitJudgements[ORBIT_STAGES.indexOf('orbitalBurn')];
+    return burn !== undefined && burn.offsetMs !== null && state.time - burn.time < ORBIT_BURN_MS;
+};
+
+/**
+ * 現在のシーンに応じてパーティクルを放出し、全体を dtMs だけ進める。
+ */
+export const updateEffects = (
+    effects: Effects,
+    state: GameState,
+    dtMs: number,
+    random: () => number = Math.random
+) => {
+    const { pool } = effects;
+    const y = nozzleY(state);
+
+    switch (state.scene) {
+        case 'power':
+            if (state.isFullPower) {
+                emit(pool, effects.charge, 0, ROCKET_BASE_Y - state.rocket.height / 2, dtMs, 1, random);
+            }
+            break;
+
+        case 'launch':
+            if (state.isLaunching) {
+                // 揺れが強いほど煙と炎を増やす
+                const intensity = 0.3 + thrustRatio(state);
+                emit(pool, effects.smoke, 0, y, dtMs, intensity, random);
+                emit(pool, effects.fire, 0, y, dtMs, intensity, random);
+                emit(pool, effects.sparks, 0, y, dtMs, intensity, random);
+            }
+            break;
+
+        case 'atmosphere':
+            emit(pool, effects.fire, 0, y, dtMs, 1, random);
+            emit(pool, effects.exhaust, 0, y, dtMs, 1, random);
+            if (state.time - state.atmosphereStartTime < state.config.countdownMs) {
+                emit(pool, effects.smoke, 0, 0, dtMs, 0.5, random);
+            }
+            break;
+
+        case 'orbit': {
+            // 真空なので煙は出さず、軌道投入の噴射のときだけ炎を大きくする
+            const isBurning = isOrbitBurning(state);
+            emit(pool, effects.fire, 0, engineY(state), dtMs, isBurning ? 1.5 : 0.3, random);
+            if (isBurning) {
+                emit(pool, effects.exhaust, 0, engineY(state), dtMs, 1, random);
+            }
+            break;
+        }
+    }
+
+    updateParticles(pool, dtMs);
+};
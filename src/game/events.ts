@@ -0,0 +1,107 @@
+import type { GameState, OrbitStage } from './types';
+import { ORBIT_STAGES } from './simulation';
+
+// 1ステップの前後の状態の差から読み取れる出来事
+export type GameEvent =
+    | { type: 'charge'; power: number }
+    | { type: 'fullPower' }
+    | { type: 'countdown'; value: number }
+    | { type: 'ignition' }
+    | { type: 'thrust'; shakeIntensity: number }
+    | { type: 'launchSuccess' }
+    | { type: 'climb'; altitude: number }
+    | { type: 'orbitBeat'; beat: number }
+    | { type: 'stageJudged'; stage: OrbitStage; offsetMs: number | null; accuracy: number }
+    | { type: 'missionComplete' }
+    | { type: 'launchFailed' }
+    | { type: 'orbitFailed' };
+
+const countdownSeconds = (state: GameState) => Math.ceil(state.config.countdownMs / 1000);
+
+/**
+ * 画面に表示しているカウントダウンの数字（表示していなければ null）。
+ * フルパワー後・発射前・大気圏突破前の3種類がある。
+ */
+export const countdownValue = (state: GameState): number | null => {
+    switch (state.scene) {
+        case 'power': {
+            if (!state.isFullPower) return null;
+            const value = countdownSeconds(state) - Math.floor((state.time - state.fullPowerTime) / 1000);
+            return value > 0 ? value : null;
+        }
+        case 'launch': {
+            const value = countdownSeconds(state) - Math.floor((state.time - state.launchStartTime) / 1000);
+            return value > 0 ? value : null;
+        }
+        case 'atmosphere': {
+            const { countdownMs } = state.config;
+            const elapsed = state.time - state.atmosphereStartTime;
+            // 最初の半分は LAUNCH SUCCESS の表示
+            if (elapsed < countdownMs / 2 || elapsed >= countdownMs) return null;
+            return Math.ceil((countdownMs - elapsed) / 1000);
+        }
+        case 'orbit':
+            // 軌道投入は秒ではなく拍で数える（orbitBeat）
+            return null;
+    }
+};
+
+// 軌道投入シーンに入ってから刻んだ拍の数
+export const orbitBeatCount = (state: GameState) =>
+    state.scene === 'orbit' ? Math.floor((state.time - state.orbitStartTime) / state.config.orbitBeatMs) : 0;
+
+export const detectEvents = (prev: GameState, next: GameState): GameEvent[] => {
+    const events: GameEvent[] = [];
+
+    if (next.power > prev.power) {
+        events.push({ type: 'charge', power: next.power });
+    }
+    if (next.isFullPower && !prev.isFullPower) {
+        events.push({ type: 'fullPower' });
+    }
+
+    const countdown = countdownValue(next);
+    if (countdown !== null && (countdown !== countdownValue(prev) || next.scene !== prev.scene)) {
+        events.push({ type: 'countdown', value: countdown });
+    }
+    if (
+        next.scene === 'launch' &&
+        prev.scene === 'launch' &&
+        next.time - next.launchStartTime >= next.config.countdownMs &&
+        prev.time - prev.launchStartTime < prev.config.countdownMs
+    ) {
+        events.push({ type: 'ignition' });
+    }
+
+    if (next.scene === 'launch' && next.shakeIntensity > prev.shakeIntensity) {
+        events.push({ type: 'thrust', shakeIntensity: next.shakeIntensity });
+    }
+    if (next.isLaunchSuccess && !prev.isLaunchSuccess) {
+        events.push({ type: 'launchSuccess' });
+    }
+    if (next.scene === 'atmosphere' && next.altitude > prev.altitude) {
+        events.push({ type: 'climb', altitude: next.altitude });
+    }
+    if (next.scene === 'orbit' && !next.isExploded && !next.isFailed) {
+        const beat = orbitBeatCount(next);
+        if (beat > 0 && (prev.scene !== 'orbit' || beat !== orbitBeatCount(prev))) {
+            events.push({ type: 'orbitBeat', beat });
+        }
+    }
+    next.orbitJudgements.slice(prev.orbitJudgements.length).forEach((judgement, i) => {
+        events.push({
+            type: 'stageJudged',
+            stage: ORBIT_STAGES[prev.orbitJudgements.length + i],
+            offsetMs: judgement.offsetMs,
+            accuracy: judgement.accuracy
+        });
+    });
+    if (next.isExploded && !prev.isExploded) {
+        events.push({ type: 'missionComplete' });
+    }
+    if (next.isFailed && !prev.isFailed) {
+        events.push({ type: next.scene === 'orbit' ? 'orbitFailed' : 'launchFailed' });
+    }
+
+    return events;
+};
@@ -0,0 +1,82 @@
+import type { GameState } from './types';
+
+// 重力加速度（m/s²）。高度による変化は無視する
+const GRAVITY = 9.81;
+// 海面の空気密度（kg/m³）とスケールハイト（m）
+const SEA_LEVEL_DENSITY = 1.225;
+const SCALE_HEIGHT = 8500;
+
+// 連打の速さを平滑化する時定数（ms）
+const MASH_RATE_SMOOTHING_MS = 500;
+
+// 大気圏シーンは実際の飛行より何倍速く進めるか（そのままでは軌道まで数分かかる）
+const FLIGHT_TIME_SCALE = 25;
+
+// 大気圏シーンで画面上のロケットが上っていく速さの上限（px/s）
+const MAX_CLIMB_PX_PER_SECOND = 240;
+// 打ち上げシーンで画面上のロケットが上る高さの上限（論理解像度の px）。上の HUD に重ならない高さにする。
+// 発射台を離れた直後はほぼ 1px = 1m
+const MAX_LIFTOFF_PX = 160;
+
+export type AtmosphereLayerName = 'TROPOSPHERE' | 'STRATOSPHERE' | 'MESOSPHERE' | 'THERMOSPHERE' | 'EXOSPHERE';
+
+// 各層の上端の高度（m）。最後の層に上端はない
+export const ATMOSPHERE_LAYERS: readonly { name: AtmosphereLayerName; top: number }[] = [
+    { name: 'TROPOSPHERE', top: 12000 },
+    { name: 'STRATOSPHERE', top: 50000 },
+    { name: 'MESOSPHERE', top: 85000 },
+    { name: 'THERMOSPHERE', top: 600000 },
+    { name: 'EXOSPHERE', top: Infinity }
+];
+
+export const layerAt = (altitude: number): AtmosphereLayerName =>
+    ATMOSPHERE_LAYERS.find(layer => altitude < layer.top)?.name ?? 'EXOSPHERE';
+
+// 高度 altitude（m）の空気密度（kg/m³）
+export const airDensity = (altitude: number) => SEA_LEVEL_DENSITY * Math.exp(-Math.max(altitude, 0) / SCALE_HEIGHT);
+
+/**
+ * このステップの連打数から連打の速さ（回/秒）を更新する。
+ * 指数移動平均なので、連打をやめると徐々に推力が落ちる。
+ */
+export const smoothMashRate = (mashRate: number, mashes: number, dtMs: number) => {
+    if (dtMs <= 0) return mashRate;
+    const instant = mashes * 1000 / dtMs;
+    return mashRate + (instant - mashRate) * (1 - Math.exp(-dtMs / MASH_RATE_SMOOTHING_MS));
+};
+
+// 連打の速さから決まる推力（kN）
+export const thrustOf = ({ mashRate, config, rocket }: GameState) =>
+    mashRate * config.thrustPerTps * rocket.thrustPerPress;
+
+// 空気抵抗による減速度（m/s²）
+export const dragOf = ({ altitude, velocity, rocket }: GameState) =>
+    0.5 * airDensity(altitude) * velocity * velocity * rocket.drag / (rocket.mass * 1000);
+
+/**
+ * 推力・重力・空気抵抗で高度と速度を dtMs だけ進める。
+ * 打ち上げシーンは実時間で進め、画面上の上昇（rocketY）は画面から出ないように高度を圧縮する。
+ * 大気圏シーンは時間を早回しし、画面上の上昇は見やすい速さに抑える。
+ */
+export const updateFlight = (state: GameState, dtMs: number): GameState => {
+    const isAtmosphere = state.scene === 'atmosphere';
+    const dt = (dtMs / 1000) * (isAtmosphere ? FLIGHT_TIME_SCALE : 1);
+
+    const acceleration = thrustOf(state) / state.rocket.mass - GRAVITY - dragOf(state);
+    let velocity = state.velocity + acceleration * dt;
+    // 大気圏では推力が落ちても失速するだけで落下はしない
+    if (isAtmosphere) velocity = Math.max(velocity, 0);
+    let altitude = state.altitude + velocity * dt;
+
+    // 発射台より下には行かない
+    if (altitude <= 0) {
+        altitude = 0;
+        velocity = Math.max(velocity, 0);
+    }
+
+    const rocketY = isAtmosphere
+        ? state.rocketY + Math.min(velocity, MAX_CLIMB_PX_PER_SECOND) * dtMs / 1000
+        : MAX_LIFTOFF_PX * (1 - Math.exp(-altitude / MAX_LIFTOFF_PX));
+
+    return { ...state, altitude, velocity, rocketY };
+};
@@ -0,0 +1,135 @@
+import type { Rank, ScoreSummary } from './scoring';
+import type { PresetId } from './config';
+import { INPUT_MODES, type InputMode } from './accessibility';
+
+// 入力方式ごとに残す件数
+export const LEADERBOARD_SIZE = 10;
+export const INITIALS_LENGTH = 3;
+
+// ランキングに残す1プレイ分の記録
+export interface LeaderboardEntry {
+    initials: string;
+    // 記録した日時（UNIX時間 ms）
+    timestamp: number;
+    score: number;
+    rank: Rank;
+    // プレイした難易度
+    preset: PresetId;
+    // 入力方式（方式ごとに別のランキングになる）
+    inputMode: InputMode;
+    success: boolean;
+    altitude: number;
+    chargeTime: number | null;
+    maxShakeTime: number | null;
+    scenes: ScoreSummary['scenes'];
+}
+
+// 項目ごとの自己ベスト（記録がなければ null）。補助入力では条件が違うので連打の記録だけで取る
+export interface PersonalBests {
+    score: number | null;
+    chargeTime: number | null;
+    maxShakeTime: number | null;
+    altitude: number | null;
+}
+
+export type BestFlags = Record<keyof PersonalBests, boolean>;
+
+export interface Leaderboard {
+    // 入力方式ごとに点数順（方式どうしの並びは問わない）
+    entries: LeaderboardEntry[];
+    bests: PersonalBests;
+    // 前回入力したイニシャル
+    lastInitials: string;
+}
+
+// 永続化の窓口（ブラウザでは localStorage、テストなどではメモリ）
+export interface LeaderboardStore {
+    load: () => Leaderboard;
+    save: (leaderboard: Leaderboard) => void;
+}
+
+export const createEmptyLeaderboard = (): Leaderboard => ({
+    entries: [],
+    bests: { score: null, chargeTime: null, maxShakeTime: null, altitude: null },
+    lastInitials: 'AAA'
+});
+
+export const createMemoryLeaderboardStore = (): LeaderboardStore => {
+    let saved = createEmptyLeaderboard();
+    return {
+        load: () => saved,
+        save: (leaderboard) => {
+            saved = leaderboard;
+        }
+    };
+};
+
+// inputMode のランキング
+export const entriesFor = (leaderboard: Leaderboard, inputMode: InputMode) =>
+    leaderboard.entries.filter(entry => entry.inputMode === inputMode);
+
+// inputMode のランキングに入る点数か
+export const qualifies = (leaderboard: Leaderboard, score: number, inputMode: InputMode = 'mash') => {
+    const entries = entriesFor(leaderboard, inputMode);
+    return entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score;
+};
+
+// 方式ごとに上位 LEADERBOARD_SIZE 件に切り詰める
+export const trimEntries = (entries: LeaderboardEntry[]) =>
+    INPUT_MODES.flatMap(mode => entries.filter(entry => entry.inputMode === mode).slice(0, LEADERBOARD_SIZE));
+
+export const createEntry = (summary: ScoreSummary, initials: string, timestamp: number): LeaderboardEntry => ({
+    initials,
+    timestamp,
+    score: summary.total,
+    rank: summary.rank,
+    preset: summary.preset,
+    inputMode: summary.inputMode,
+    success: summary.success,
+    altitude: summary.altitude,
+    chargeTime: summary.chargeTime,
+    maxShakeTime: summary.maxShakeTime,
+    scenes: summary.scenes
+});
+
+/**
+ * 記録を同じ入力方式のランキングに点数順で挿入し、上位 LEADERBOARD_SIZE 件に切り詰める。
+ * 同点の場合は先に記録したほうが上位。index はその方式のランキングでの順位で、圏外なら -1。
+ */
+export const addEntry = (leaderboard: Leaderboard, entry: LeaderboardEntry) => {
+    const category = entriesFor(leaderboard, entry.inputMode);
+    const others = leaderboard.entries.filter(existing => existing.inputMode !== entry.inputMode);
+    const position = category.findIndex(existing => entry.score > existing.score);
+    const index = position === -1 ? category.length : position;
+    const ranked = [...category.slice(0, index), entry, ...category.slice(index)].slice(0, LEADERBOARD_SIZE);
+
+    return {
+        leaderboard: { ...leaderboard, entries: [...others, ...ranked], lastInitials: entry.initials },
+        index: index < LEADERBOARD_SIZE ? index : -1
+    };
+};
+
+const isLower = (value: number | null, best: number | null) =>
+    value !== null && (best === null || value < best);
+const isHigher = (value: number | null, best: number | null) =>
+    value !== null && (best === null || value > best);
+
+// 自己ベストを更新し、どの項目が更新されたかを返す
+export const updateBests = (bests: PersonalBests, summary: ScoreSummary) => {
+    const flags: BestFlags = {
+        score: isHigher(summary.total, bests.score),
+        chargeTime: isLower(summary.chargeTime, bests.chargeTime),
+        maxShakeTime: isLower(summary.maxShakeTime, bests.maxShakeTime),
+        altitude: isHigher(summary.altitude, bests.altitude)
+    };
+
+    return {
+        bests: {
+            score: flags.score ? summary.total : bests.score,
+            chargeTime: flags.chargeTime ? summary.chargeTime : bests.chargeTime,
+            maxShakeTime: flags.maxShakeTime ? summary.maxShakeTime : bests.maxShakeTime,
+            altitude: flags.altitude ? summary.altitude : bests.altitude
+        },
+        flags
+    };
+};
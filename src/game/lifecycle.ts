@@ -0,0 +1,982 @@
+import type { GameState } from './types';
+import { createInitialState, step } from './simulation';
+import { FIXED_STEP_MS } from './loop';
+import { clearParticles } from './particles';
+import { createEffects, updateEffects, type Effects } from './effects';
+import {
+    createScoreTracker,
+    summarizeScore,
+    trackScore,
+    type ScoreSummary,
+    type ScoreTracker
+} from './scoring';
+import {
+    addEntry,
+    createEntry,
+    createMemoryLeaderboardStore,
+    INITIALS_LENGTH,
+    qualifies,
+    updateBests,
+    type BestFlags,
+    type Leaderboard,
+    type LeaderboardStore
+} from './leaderboard';
+import { detectEvents, type GameEvent } from './events';
+import {
+    adjustField,
+    CONFIG_FIELDS,
+    configFor,
+    createMemoryDifficultyStore,
+    PRESET_IDS,
+    type Difficulty,
+    type DifficultyStore
+} from './config';
+import { createRandom, mixSeed, randomSeed } from './random';
+import { DEFAULT_LOADOUT, ROCKET_IDS, SITE_IDS, type Loadout } from './catalog';
+import {
+    createReplayRecorder,
+    decodeMashes,
+    encodeMashes,
+    recordMashes,
+    REPLAY_FORMAT_VERSION,
+    type Replay,
+    type ReplayRecorder
+} from './replay';
+import { createMashValidator, flagRun, isRanked, validateMashes, type MashValidator } from './mashValidator';
+import { createVersus, stepVersus, type Versus } from './versus';
+import {
+    joinOnline,
+    isHost,
+    leaveOnline,
+    pumpOnline,
+    returnToLobby,
+    sendProgress,
+    startOnlineRace,
+    type OnlineRace,
+    type OnlineStart
+} from './online';
+import { createMemoryRelay, type Transport } from '../net/transport';
+import {
+    createMemoryAccessibilitySettingsStore,
+    INPUT_MODES,
+    SHAKE_STRENGTH_STEP,
+    type AccessibilitySettings,
+    type AccessibilitySettingsStore,
+    type InputMode
+} from './accessibility';
+import { assistMashes, createInputAssist, type InputAssist } from './assist';
+import {
+    advanceToasts,
+    availablePaints,
+    createAchievementRun,
+    createMemoryAchievementStore,
+    recordAchievements,
+    trackAchievements,
+    type AchievementRecord,
+    type AchievementRun,
+    type AchievementStore,
+    type AchievementToast
+} from './achievements';
+import { createMemoryLocaleStore, nextLocale, type Locale, type LocaleStore } from '../i18n/locale';
+
+export type ScreenId =
+    | 'title'
+    | 'settings'
+    | 'accessibility'
+    | 'select'
+    | 'play'
+    | 'result'
+    | 'nameEntry'
+    | 'leaderboard'
+    | 'versus'
+    | 'versusResult'
+    | 'lobby'
+    | 'online'
+    | 'onlineResult';
+
+export type NavKey = 'up' | 'down' | 'left' | 'right' | 'erase';
+
+// ゲームの進行とは関係ない操作（音量など）
+export type Command =
+    | 'toggleMute'
+    | 'volumeUp'
+    | 'volumeDown'
+    | 'openSettings'
+    | 'openAccessibility'
+    | 'switchLocale'
+    | 'saveReplay'
+    | 'saveScreenshot'
+    | 'saveClip'
+    | 'openVersus'
+    | 'openOnline'
+    | 'toggleFrameBudget'
+    | 'toggleLayerCache';
+
+// 1ステップ分の操作
+export interface FrameInput {
+    mashes: number;
+    // 各連打の押下時刻（イベントのタイムスタンプ、ms）
+    mashTimes: number[];
+    // 連打のボタンを押し続けているか（長押しの入力方式用）
+    holding: boolean;
+    // 対戦用の1P・2Pそれぞれの連打の回数（A / L キー、画面の左右、1台目・2台目のゲームパッド）
+    playerMashes: [number, number];
+    // 対戦用の1P・2Pそれぞれが連打のボタンを押し続けているか
+    playerHolding: [boolean, boolean];
+    // 決定（Enter）
+    confirm: boolean;
+    // 戻る（Esc）
+    cancel: boolean;
+    // 一時停止（P・画面の一時停止ボタン）
+    pause: boolean;
+    // 矢印キーと Backspace
+    nav: NavKey[];
+    // 入力された英数字（名前入力用、大文字）
+    text: string;
+    commands: Command[];
+}
+
+export const createFrameInput = (): FrameInput => ({
+    mashes: 0,
+    mashTimes: [],
+    holding: false,
+    playerMashes: [0, 0],
+    playerHolding: [false, false],
+    confirm: false,
+    cancel: false,
+    pause: false,
+    nav: [],
+    text: '',
+    commands: []
+});
+
+// アクセシビリティ設定画面の行（この順に並ぶ）
+export const ACCESSIBILITY_ROWS = ['inputMode', 'reducedMotion', 'reducedFlash', 'shakeStrength'] as const;
+
+// 名前入力で使える文字
+export const INITIALS_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+export interface NameEntry {
+    letters: string[];
+    cursor: number;
+}
+
+// 一時停止メニューの項目（この順に並ぶ）
+export const PAUSE_MENU_ITEMS = ['resume', 'retry', 'quit'] as const;
+
+export type PauseMenuItem = typeof PAUSE_MENU_ITEMS[number];
+
+export interface PauseMenu {
+    cursor: number;
+    // 一時停止してからの経過時間（ms）
+    time: number;
+}
+
+// リプレイ再生中の状態
+export interface Playback {
+    replay: Replay;
+    // ステップ番号ごとの連打回数
+    mashesByStep: Map<number, number>;
+}
+
+/**
+ * 画面遷移をまたいで保持されるゲーム全体の状態。
+ * GameState はプレイごとに作り直し、こちらは起動中ずっと使い回す。
+ */
+export interface Session {
+    screen: ScreenId;
+    // 現在の画面に入ってからの経過時間（ms）
+    screenTime: number;
+    // 描画の補間用に1ステップ前の状態も持つ
+    previous: GameState;
+    state: GameState;
+    // 直近の updateSession で起きた出来事（効果音などが参照する）
+    events: GameEvent[];
+    effects: Effects;
+    score: ScoreTracker;
+    validator: MashValidator;
+    // 直前のプレイの結果（結果画面に入るときに確定する）
+    result: ScoreSummary | null;
+    // 結果画面で更新された自己ベスト
+    newBests: BestFlags | null;
+    leaderboard: Leaderboard;
+    leaderboardStore: LeaderboardStore;
+    nameEntry: NameEntry;
+    // ランキング画面で強調する順位（なければ -1）
+    highlightIndex: number;
+    difficulty: Difficulty;
+    difficultyStore: DifficultyStore;
+    // 設定画面の選択行（0: 難易度、1以降: CONFIG_FIELDS）
+    settingsCursor: number;
+    accessibility: AccessibilitySettings;
+    accessibilityStore: AccessibilitySettingsStore;
+    // アクセシビリティ設定画面の選択行（ACCESSIBILITY_ROWS の順）
+    accessibilityCursor: number;
+    // 補助入力の途中の状態
+    assist: InputAssist;
+    // ランキング画面で表示している入力方式
+    leaderboardMode: InputMode;
+    // 画面に出す文字の言語
+    locale: Locale;
+    localeStore: LocaleStore;
+    // 選択画面で選んだロケットと発射場、選択中の行（0: ロケット、1: 発射場、2: 塗装）
+    loadout: Loadout;
+    selectCursor: number;
+    // 解除した実績と選んだ塗装、今のプレイの実績の途中経過
+    achievements: AchievementRecord;
+    achievementStore: AchievementStore;
+    achievementRun: AchievementRun;
+    // 解除を知らせるトースト（先頭を表示中）
+    toasts: AchievementToast[];
+    // 描画の論理解像度（星と雲はこの範囲に配置する）
+    width: number;
+    height: number;
+    // 現在のプレイのシードと、そこから作った演出用の乱数
+    seed: number;
+    random: () => number;
+    // プレイ開始からのステップ数
+    stepIndex: number;
+    recorder: ReplayRecorder;
+    // 直前のプレイのリプレイ（結果画面に入るときに確定する）
+    replay: Replay | null;
+    // リプレイ再生中なら再生するリプレイ
+    playback: Playback | null;
+    // プレイ中に一時停止していればそのメニュー
+    pauseMenu: PauseMenu | null;
+    // 2人対戦中（と対戦の結果画面）ならその状態
+    versus: Versus | null;
+    // オンライン対戦の部屋に入っていればその状態
+    online: OnlineRace | null;
+    // オンライン対戦の中継サーバーにつなぐ
+    connect: () => Transport;
+    seedSource: () => number;
+    now: () => number;
+}
+
+export interface SessionOptions {
+    // プレイごとのシードを作る
+    seedSource?: () => number;
+    // 記録の日時に使う現在時刻
+    now?: () => number;
+    leaderboardStore?: LeaderboardStore;
+    difficultyStore?: DifficultyStore;
+    accessibilityStore?: AccessibilitySettingsStore;
+    localeStore?: LocaleStore;
+    achievementStore?: AchievementStore;
+    // オンライン対戦の接続（既定はこのページの中だけの中継）
+    connect?: () => Transport;
+}
+
+interface Screen {
+    enter?: (session: Session) => void;
+    exit?: (session: Session) => void;
+    update: (session: Session, input: FrameInput, dtMs: number) => void;
+}
+
+// 成功・失敗が決まってから結果画面に移るまでの余韻
+export const RESULT_DELAY_MS = 2500;
+// 結果画面で連打の勢いのまま即リトライしないように入力を受け付けない時間
+export const RESULT_INPUT_DELAY_MS = 1000;
+// タイトルでの連打の勢いで選択画面を飛ばさないように入力を受け付けない時間
+export const SELECT_INPUT_DELAY_MS = 500;
+// 一時停止した直後の連打でメニューを選んでしまわないように連打を受け付けない時間
+export const PAUSE_INPUT_DELAY_MS = 500;
+
+// 選択画面の行の数（ロケット・発射場・塗装）
+const SELECT_ROW_COUNT = 3;
+
+// 演出用の乱数はゲームの状態とは別の系列にする
+const EFFECTS_SEED_SALT = 1;
+
+/**
+ * 星と雲を撒き直し、パーティクルも消して新しいプレイを用意する。
+ * リプレイ再生中は記録されたシード・調整値・画面サイズで、オンライン対戦では部屋の主が決めたシードと調整値で作り直す。
+ */
+const resetGame = (session: Session, start: OnlineStart | null = null) => {
+    const { playback } = session;
+    session.seed = playback ? playback.replay.seed : start ? start.seed : session.seedSource();
+    session.random = createRandom(mixSeed(session.seed, EFFECTS_SEED_SALT));
+    session.state = playback
+        ? createInitialState(
+            playback.replay.width,
+            playback.replay.height,
+            playback.replay.config,
+            session.seed,
+            playback.replay.loadout
+        )
+        : createInitialState(
+            session.width,
+            session.height,
+            start ? start.config : configFor(session.difficulty),
+            session.seed,
+            session.loadout
+        );
+    session.previous = session.state;
+    session.stepIndex = 0;
+    session.recorder = createReplayRecorder();
+    session.replay = null;
+    session.score = createScoreTracker();
+    session.validator = createMashValidator();
+    // カスタムの調整値は簡単にいくらでも点を取れるので、ランキング・自己ベスト・実績の対象にしない
+    if (!playback && !start && session.difficulty.preset === 'custom') flagRun(session.validator, 'custom');
+    session.assist = createInputAssist();
+    session.achievementRun = createAchievementRun();
+    session.result = null;
+    session.newBests = null;
+    session.pauseMenu = null;
+    clearParticles(session.effects.pool);
+};
+
+/**
+ * 一時停止メニューの操作。止めている間はシミュレーションを進めないので、
+ * ゲーム内の時刻で決まるカウントダウンや制限時間もそのまま止まる。
+ */
+const updatePauseMenu = (session: Session, menu: PauseMenu, input: FrameInput, dtMs: number) => {
+    menu.time += dtMs;
+
+    if (input.pause || input.cancel) {
+        session.pauseMenu = null;
+        return;
+    }
+
+    input.nav.forEach(key => {
+        if (key === 'up') menu.cursor = (menu.cursor + PAUSE_MENU_ITEMS.length - 1) % PAUSE_MENU_ITEMS.length;
+        if (key === 'down') menu.cursor = (menu.cursor + 1) % PAUSE_MENU_ITEMS.length;
+    });
+
+    if (!input.confirm && !(input.mashes > 0 && menu.time >= PAUSE_INPUT_DELAY_MS)) return;
+    switch (PAUSE_MENU_ITEMS[menu.cursor]) {
+        case 'resume':
+            session.pauseMenu = null;
+            break;
+        case 'retry':
+            // 今の画面に入り直す（再生中なら同じリプレイを、対戦なら対戦を最初から）
+            changeScreen(session, session.screen);
+            break;
+        case 'quit':
+            changeScreen(session, 'title');
+            break;
+    }
+};
+
+const screens: Record<ScreenId, Screen> = {
+    title: {
+        enter: (session) => {
+            session.playback = null;
+            resetGame(session);
+        },
+        update: (session, input) => {
+            if (input.mashes > 0) {
+                changeScreen(session, 'select');
+            } else if (input.confirm) {
+                session.highlightIndex = -1;
+                session.leaderboardMode = session.accessibility.inputMode;
+                changeScreen(session, 'leaderboard');
+            } else if (input.commands.includes('openSettings')) {
+                changeScreen(session, 'settings');
+            } else if (input.commands.includes('openAccessibility')) {
+                changeScreen(session, 'accessibility');
+            } else if (input.commands.includes('switchLocale')) {
+                session.locale = nextLocale(session.locale);
+                session.localeStore.save(session.locale);
+            } else if (input.commands.includes('openVersus')) {
+                changeScreen(session, 'versus');
+            } else if (input.commands.includes('openOnline')) {
+                changeScreen(session, 'lobby');
+            }
+        }
+    },
+    settings: {
+        enter: (session) => {
+            session.settingsCursor = 0;
+        },
+        update: (session, input) => {
+            const rows = CONFIG_FIELDS.length + 1;
+
+            input.nav.forEach(key => {
+                switch (key) {
+                    case 'up':
+                        session.settingsCursor = (session.settingsCursor - 1 + rows) % rows;
+                        break;
+                    case 'down':
+                        session.settingsCursor = (session.settingsCursor + 1) % rows;
+                        break;
+                    case 'left':
+                        changeSetting(session, -1);
+                        break;
+                    case 'right':
+                        changeSetting(session, 1);
+                        break;
+                }
+            });
+
+            if (input.cancel || input.confirm) {
+                changeScreen(session, 'title');
+            }
+        }
+    },
+    accessibility: {
+        enter: (session) => {
+            session.accessibilityCursor = 0;
+        },
+        update: (session, input) => {
+            const rows = ACCESSIBILITY_ROWS.length;
+
+            input.nav.forEach(key => {
+                switch (key) {
+                    case 'up':
+                        session.accessibilityCursor = (session.accessibilityCursor - 1 + rows) % rows;
+                        break;
+                    case 'down':
+                        session.accessibilityCursor = (session.accessibilityCursor + 1) % rows;
+                        break;
+                    case 'left':
+                        changeAccessibility(session, -1);
+                        break;
+                    case 'right':
+                        changeAccessibility(session, 1);
+                        break;
+                }
+            });
+
+            if (input.cancel || input.confirm) {
+                changeScreen(session, 'title');
+            }
+        }
+    },
+    select: {
+        enter: (session) => {
+            session.selectCursor = 0;
+        },
+        update: (session, input) => {
+            input.nav.forEach(key => {
+                switch (key) {
+                    case 'up':
+                        session.selectCursor = (session.selectCursor + SELECT_ROW_COUNT - 1) % SELECT_ROW_COUNT;
+                        break;
+                    case 'down':
+                        session.selectCursor = (session.selectCursor + 1) % SELECT_ROW_COUNT;
+                        break;
+                    case 'left':
+                        changeLoadout(session, -1);
+                        break;
+                    case 'right':
+                        changeLoadout(session, 1);
+                        break;
+                }
+            });
+
+            if (input.cancel) {
+                changeScreen(session, 'title');
+            } else if (input.confirm || (input.mashes > 0 && session.screenTime >= SELECT_INPUT_DELAY_MS)) {
+                changeScreen(session, 'play');
+            }
+        }
+    },
+    play: {
+        enter: resetGame,
+        exit: (session) => {
+            session.pauseMenu = null;
+        },
+        update: (session, input, dtMs) => {
+            const { playback, pauseMenu } = session;
+            if (pauseMenu) {
+                updatePauseMenu(session, pauseMenu, input, dtMs);
+                return;
+            }
+            if (playback && input.cancel) {
+                changeScreen(session, 'title');
+                return;
+            }
+            if (input.pause || input.cancel) {
+                pauseGame(session);
+                return;
+            }
+
+            // 再生中は記録された連打だけを使い、ステップ幅も記録時に揃える
+            const { inputMode } = session.accessibility;
+            const mashes = playback
+                ? playback.mashesByStep.get(session.stepIndex) ?? 0
+                : assistMashes(session.assist, inputMode, session.state, input, dtMs);
+            const stepMs = playback ? playback.replay.stepMs : dtMs;
+
+            trackScore(session.score, session.state, mashes);
+            if (!playback) {
+                // 補助入力は一定の速さで連打を作るので、連射機能の判定はしない
+                if (inputMode === 'mash') validateMashes(session.validator, input.mashTimes);
+                recordMashes(session.recorder, session.stepIndex, mashes);
+            }
+            session.previous = session.state;
+            session.state = step(session.state, { mashes }, stepMs);
+            session.events = detectEvents(session.previous, session.state);
+            updateEffects(session.effects, session.state, stepMs, session.random);
+            updateAchievements(session);
+            session.stepIndex++;
+
+            const { state } = session;
+            if ((state.isExploded || state.isFailed) && state.time - state.endTime >= RESULT_DELAY_MS) {
+                changeScreen(session, 'result');
+            }
+        }
+    },
+    result: {
+        enter: (session) => {
+            const { playback } = session;
+            const preset = playback ? playback.replay.preset : session.difficulty.preset;
+            const inputMode = playback ? playback.replay.inputMode : session.accessibility.inputMode;
+            const result = summarizeScore(session.score, session.state, preset, session.validator.flags, inputMode);
+            session.result = result;
+
+            // 再生したリプレイと、開発コマンドで書き換えたプレイは記録の対象にしない
+            if (playback || session.validator.flags.includes('debug')) return;
+            session.replay = {
+                version: REPLAY_FORMAT_VERSION,
+                seed: session.seed,
+                preset,
+                config: session.state.config,
+                loadout: session.loadout,
+                inputMode,
+                width: session.width,
+                height: session.height,
+                stepMs: FIXED_STEP_MS,
+                mashes: encodeMashes(session.recorder.mashSteps),
+                score: result.total,
+                recordedAt: session.now()
+            };
+
+            // 連射機能などが疑われるプレイは自己ベストにもランキングにも残さない。
+            // 自己ベストは連打で出した記録だけを持つ（補助入力はランキングだけ分けて残す）
+            if (!result.ranked) return;
+            if (inputMode !== 'mash') return;
+
+            const { bests, flags } = updateBests(session.leaderboard.bests, result);
+            session.newBests = flags;
+            saveLeaderboard(session, { ...session.leaderboard, bests });
+        },
+        update: (session, input) => {
+            if (session.screenTime < RESULT_INPUT_DELAY_MS) return;
+
+            if (input.cancel) {
+                changeScreen(session, 'title');
+            } else if (input.mashes > 0 || input.confirm) {
+                const next = isRankIn(session) ? 'nameEntry' : 'play';
+                // リプレイを見たあとは自分のプレイに戻る
+                session.playback = null;
+                changeScreen(session, next);
+            }
+        }
+    },
+    nameEntry: {
+        enter: (session) => {
+            const initials = session.leaderboard.lastInitials.padEnd(INITIALS_LENGTH, 'A');
+            session.nameEntry = { letters: initials.slice(0, INITIALS_LENGTH).split(''), cursor: 0 };
+        },
+        update: (session, input) => {
+            const entry = session.nameEntry;
+
+            for (const char of input.text) {
+                if (!INITIALS_CHARSET.includes(char)) continue;
+                entry.letters[entry.cursor] = char;
+                entry.cursor = Math.min(entry.cursor + 1, INITIALS_LENGTH - 1);
+            }
+            input.nav.forEach(key => {
+                switch (key) {
+                    case 'up':
+                        entry.letters[entry.cursor] = shiftLetter(entry.letters[entry.cursor], 1);
+                        break;
+                    case 'down':
+                        entry.letters[entry.cursor] = shiftLetter(entry.letters[entry.cursor], -1);
+                        break;
+                    case 'left':
+                    case 'erase':
+                        entry.cursor = Math.max(entry.cursor - 1, 0);
+                        break;
+                    case 'right':
+                        entry.cursor = Math.min(entry.cursor + 1, INITIALS_LENGTH - 1);
+                        break;
+                }
+            });
+
+            // タッチやゲームパッドでは連打ボタンでもそのまま登録できる
+            const isConfirmed = input.confirm ||
+                (input.mashes > 0 && session.screenTime >= RESULT_INPUT_DELAY_MS);
+
+            if (isConfirmed && session.result) {
+                const { leaderboard, index } = addEntry(
+                    session.leaderboard,
+                    createEntry(session.result, entry.letters.join(''), session.now())
+                );
+                saveLeaderboard(session, leaderboard);
+                session.highlightIndex = index;
+                session.leaderboardMode = session.result.inputMode;
+                changeScreen(session, 'leaderboard');
+            } else if (input.cancel) {
+                changeScreen(session, 'title');
+            }
+        }
+    },
+    leaderboard: {
+        update: (session, input) => {
+            // 左右で入力方式ごとのランキングを切り替える
+            input.nav.forEach(key => {
+                if (key !== 'left' && key !== 'right') return;
+                const index = INPUT_MODES.indexOf(session.leaderboardMode) + (key === 'left' ? -1 : 1);
+                session.leaderboardMode = INPUT_MODES[(index + INPUT_MODES.length) % INPUT_MODES.length];
+                session.highlightIndex = -1;
+            });
+
+            // 登録を連打で決めた勢いで飛ばさないように、しばらくは連打で次のプレイに進まない
+            if (input.cancel) {
+                changeScreen(session, 'title');
+            } else if (input.mashes > 0 && session.screenTime >= RESULT_INPUT_DELAY_MS) {
+                changeScreen(session, 'play');
+            }
+        }
+    },
+    versus: {
+        // 選択画面で選んだ機体と発射場、今の難易度で対戦する。
+        // 各プレイヤーの画面は縦長（論理解像度の2倍の高さ）に描いて半分に縮めて並べる
+        enter: (session) => {
+            session.pauseMenu = null;
+            session.versus = createVersus(
+                session.width,
+                session.height * 2,
+                configFor(session.difficulty),
+                session.seedSource(),
+                session.loadout
+            );
+        },
+        exit: (session) => {
+            session.pauseMenu = null;
+        },
+        update: (session, input, dtMs) => {
+            const { versus, pauseMenu } = session;
+            if (!versus) return;
+            if (pauseMenu) {
+                updatePauseMenu(session, pauseMenu, input, dtMs);
+                return;
+            }
+            if (input.pause || input.cancel) {
+                pauseGame(session);
+                return;
+            }
+
+            session.events = stepVersus(versus, input, session.accessibility.inputMode, dtMs);
+
+            if (versus.winner !== null && versus.players[0].state.time - versus.decidedTime >= RESULT_DELAY_MS) {
+                changeScreen(session, 'versusResult');
+            }
+        }
+    },
+    versusResult: {
+        update: (session, input) => {
+            if (session.screenTime < RESULT_INPUT_DELAY_MS) return;
+
+            if (input.cancel) {
+                session.versus = null;
+                changeScreen(session, 'title');
+            } else if (input.mashes > 0 || input.confirm || input.playerMashes.some(count => count > 0)) {
+                changeScreen(session, 'versus');
+            }
+        }
+    },
+    lobby: {
+        // 部屋にいなければ（前の接続が切れていれば）つなぎ直し、いれば次のレースを待つ
+        enter: (session) => {
+            const { online } = session;
+            if (online && (online.status === 'connecting' || online.status === 'connected')) {
+                returnToLobby(online);
+            } else {
+                session.online = joinOnline(session.connect(), session.now());
+            }
+        },
+        update: (session, input) => {
+            const { online } = session;
+            if (!online) return;
+            const now = session.now();
+            pumpOnline(online, now);
+
+            if (input.cancel) {
+                leaveOnline(online);
+                session.online = null;
+                changeScreen(session, 'title');
+                return;
+            }
+
+            const isPressed = input.confirm || (input.mashes > 0 && session.screenTime >= SELECT_INPUT_DELAY_MS);
+            if (online.status === 'roomFull' || online.status === 'lost') {
+                // もう一度つなぎにいく
+                if (isPressed) changeScreen(session, 'lobby');
+                return;
+            }
+            if (isPressed && isHost(online)) {
+                startOnlineRace(online, session.seedSource(), configFor(session.difficulty), now);
+            }
+            if (online.startPending) {
+                changeScreen(session, 'online');
+            }
+        }
+    },
+    online: {
+        // 一時停止はできない（相手は走り続けている）。Esc で棄権して部屋を出る
+        enter: (session) => {
+            const { online } = session;
+            if (!online) return;
+            online.startPending = false;
+            session.playback = null;
+            resetGame(session, online.start);
+        },
+        update: (session, input, dtMs) => {
+            const { online } = session;
+            if (!online) return;
+            pumpOnline(online, session.now());
+
+            if (input.cancel) {
+                leaveOnline(online);
+                session.online = null;
+                changeScreen(session, 'title');
+                return;
+            }
+            // 部屋の主は合図が相手に届くまで待つ
+            if (online.startDelayMs > 0) {
+                online.startDelayMs -= dtMs;
+                return;
+            }
+
+            // 補助入力も1人プレイと同じように連打に直す（状態は resetGame で作り直す）
+            const mashes = assistMashes(session.assist, session.accessibility.inputMode, session.state, input, dtMs);
+            session.previous = session.state;
+            session.state = step(session.state, { mashes }, dtMs);
+            session.events = detectEvents(session.previous, session.state);
+            updateEffects(session.effects, session.state, dtMs, session.random);
+            sendProgress(online, session.state, mashes);
+
+            const { state } = session;
+            if ((state.isExploded || state.isFailed) && state.time - state.endTime >= RESULT_DELAY_MS) {
+                changeScreen(session, 'onlineResult');
+            }
+        }
+    },
+    onlineResult: {
+        // まだ飛んでいる相手の結果が届けば順位表が更新される
+        update: (session, input) => {
+            const { online } = session;
+            if (!online) return;
+            pumpOnline(online, session.now());
+            if (session.screenTime < RESULT_INPUT_DELAY_MS) return;
+
+            if (input.cancel) {
+                leaveOnline(online);
+                session.online = null;
+                changeScreen(session, 'title');
+            } else if (input.mashes > 0 || input.confirm) {
+                changeScreen(session, 'lobby');
+            }
+        }
+    }
+};
+
+// 文字を INITIALS_CHARSET の中で前後に送る
+const shiftLetter = (letter: string, delta: number) => {
+    const index = INITIALS_CHARSET.indexOf(letter);
+    const length = INITIALS_CHARSET.length;
+    return INITIALS_CHARSET[(index + delta + length) % length];
+};
+
+/**
+ * 設定画面の選択行を変更する。難易度の行ならプリセットを切り替え、
+ * 調整値の行なら現在の値をもとにカスタム設定として編集する。
+ */
+const changeSetting = (session: Session, direction: 1 | -1) => {
+    const { difficulty } = session;
+
+    if (session.settingsCursor === 0) {
+        const index = PRESET_IDS.indexOf(difficulty.preset);
+        const preset = PRESET_IDS[(index + direction + PRESET_IDS.length) % PRESET_IDS.length];
+        saveDifficulty(session, { ...difficulty, preset });
+        return;
+    }
+
+    const field = CONFIG_FIELDS[session.settingsCursor - 1];
+    saveDifficulty(session, {
+        preset: 'custom',
+        customConfig: adjustField(configFor(difficulty), field, direction)
+    });
+};
+
+// アクセシビリティ設定画面の選択行の値を切り替えて保存する
+const changeAccessibility = (session: Session, direction: 1 | -1) => {
+    const settings = session.accessibility;
+    let next: AccessibilitySettings;
+
+    switch (ACCESSIBILITY_ROWS[session.accessibilityCursor]) {
+        case 'inputMode': {
+            const index = INPUT_MODES.indexOf(settings.inputMode) + direction;
+            next = { ...settings, inputMode: INPUT_MODES[(index + INPUT_MODES.length) % INPUT_MODES.length] };
+            break;
+        }
+        case 'reducedMotion':
+            next = { ...settings, reducedMotion: !settings.reducedMotion };
+            break;
+        case 'reducedFlash':
+            next = { ...settings, reducedFlash: !settings.reducedFlash };
+            break;
+        case 'shakeStrength':
+            next = {
+                ...settings,
+                shakeStrength: Math.min(Math.max(settings.shakeStrength + SHAKE_STRENGTH_STEP * direction, 0), 1)
+            };
+            break;
+    }
+    session.accessibility = next;
+    session.accessibilityStore.save(next);
+};
+
+// 選択画面の選択行に応じてロケットか発射場を前後に切り替える
+const changeLoadout = (session: Session, direction: 1 | -1) => {
+    const { loadout } = session;
+    const cycle = <T>(ids: T[], current: T) => ids[(ids.indexOf(current) + direction + ids.length) % ids.length];
+
+    // 塗装は見た目だけなのでプレイの状態は作り直さない
+    if (session.selectCursor === 2) {
+        const { achievements } = session;
+        saveAchievements(session, { ...achievements, paint: cycle(availablePaints(achievements), achievements.paint) });
+        return;
+    }
+    session.loadout = session.selectCursor === 0
+        ? { ...loadout, rocket: cycle(ROCKET_IDS, loadout.rocket) }
+        : { ...loadout, site: cycle(SITE_IDS, loadout.site) };
+    // 選択画面のプレビューは state の機体と発射場で描く
+    session.state = createInitialState(session.width, session.height, configFor(session.difficulty), session.seed, session.loadout);
+    session.previous = session.state;
+};
+
+const saveDifficulty = (session: Session, difficulty: Difficulty) => {
+    session.difficulty = difficulty;
+    session.difficultyStore.save(difficulty);
+};
+
+export const isRankIn = (session: Session) =>
+    session.playback === null &&
+    session.result !== null &&
+    session.result.ranked &&
+    qualifies(session.leaderboard, session.result.total, session.result.inputMode);
+
+// リプレイの再生を始める
+export const startPlayback = (session: Session, replay: Replay) => {
+    session.playback = { replay, mashesByStep: decodeMashes(replay.mashes) };
+    changeScreen(session, 'play');
+};
+
+const saveAchievements = (session: Session, achievements: AchievementRecord) => {
+    session.achievements = achievements;
+    session.achievementStore.save(achievements);
+};
+
+/**
+ * このステップの出来事から実績を解除して保存し、トーストで知らせる。
+ * リプレイの再生と、ランキングの対象外になったプレイ（連射機能の疑い・開発コマンド）は数えない。
+ */
+const updateAchievements = (session: Session) => {
+    if (session.playback || !isRanked(session.validator)) return;
+    const earned = trackAchievements(session.achievementRun, session.previous, session.state, session.events);
+    const launches = session.events.filter(event => event.type === 'launchSuccess').length;
+    if (earned.length === 0 && launches === 0) return;
+
+    const { record, unlocked } = recordAchievements(session.achievements, earned, launches, session.now());
+    saveAchievements(session, record);
+    session.toasts.push(...unlocked.map(id => ({ id, elapsed: 0 })));
+};
+
+const saveLeaderboard = (session: Session, leaderboard: Leaderboard) => {
+    session.leaderboard = leaderboard;
+    session.leaderboardStore.save(leaderboard);
+};
+
+export const createSession = (width: number, height: number, options: SessionOptions = {}): Session => {
+    const {
+        seedSource = randomSeed,
+        now = Date.now,
+        leaderboardStore = createMemoryLeaderboardStore(),
+        difficultyStore = createMemoryDifficultyStore(),
+        accessibilityStore = createMemoryAccessibilitySettingsStore(),
+        localeStore = createMemoryLocaleStore(),
+        achievementStore = createMemoryAchievementStore(),
+        connect = createMemoryRelay().connect
+    } = options;
+    const difficulty = difficultyStore.load();
+    const state = createInitialState(width, height, configFor(difficulty));
+    const session: Session = {
+        screen: 'title',
+        screenTime: 0,
+        previous: state,
+        state,
+        events: [],
+        effects: createEffects(),
+        score: createScoreTracker(),
+        validator: createMashValidator(),
+        result: null,
+        newBests: null,
+        leaderboard: leaderboardStore.load(),
+        leaderboardStore,
+        nameEntry: { letters: [], cursor: 0 },
+        highlightIndex: -1,
+        difficulty,
+        difficultyStore,
+        settingsCursor: 0,
+        accessibility: accessibilityStore.load(),
+        accessibilityStore,
+        accessibilityCursor: 0,
+        assist: createInputAssist(),
+        leaderboardMode: 'mash',
+        locale: localeStore.load(),
+        localeStore,
+        loadout: DEFAULT_LOADOUT,
+        selectCursor: 0,
+        achievements: achievementStore.load(),
+        achievementStore,
+        achievementRun: createAchievementRun(),
+        toasts: [],
+        width,
+        height,
+        seed: 0,
+        random: Math.random,
+        stepIndex: 0,
+        recorder: createReplayRecorder(),
+        replay: null,
+        playback: null,
+        pauseMenu: null,
+        versus: null,
+        online: null,
+        connect,
+        seedSource,
+        now
+    };
+    screens.title.enter?.(session);
+    return session;
+};
+
+// 現在の画面の exit と次の画面の enter を呼んで遷移する
+export const changeScreen = (session: Session, screen: ScreenId) => {
+    screens[session.screen].exit?.(session);
+    session.screen = screen;
+    session.screenTime = 0;
+    screens[screen].enter?.(session);
+};
+
+/**
+ * プレイ中（対戦中）なら一時停止する（タブの切り替えやウィンドウのフォーカスが外れたときにも呼ぶ）。
+ * 直前のステップの出来事は処理済みなので捨てる。
+ */
+export const pauseGame = (session: Session) => {
+    if ((session.screen !== 'play' && session.screen !== 'versus') || session.pauseMenu) return;
+    session.pauseMenu = { cursor: 0, time: 0 };
+    session.events = [];
+};
+
+export const updateSession = (session: Session, input: FrameInput, dtMs: number) => {
+    session.screenTime += dtMs;
+    session.events = [];
+    advanceToasts(session.toasts, dtMs);
+    screens[session.screen].update(session, input, dtMs);
+};
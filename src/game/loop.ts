@@ -0,0 +1,86 @@
+// シミュレーションの固定ステップ幅（60Hz）
+export const FIXED_STEP_MS = 1000 / 60;
+// タブ復帰時などに大量のステップを一度に処理しないための上限
+const MAX_FRAME_MS = 250;
+
+export interface GameLoopHandlers {
+    // 固定ステップごとに呼ばれる
+    update: (dtMs: number) => void;
+    // 毎フレーム呼ばれる。alpha は前ステップから次ステップまでの補間係数（0〜1）
+    render: (alpha: number) => void;
+}
+
+export interface GameLoop {
+    start: () => void;
+    stop: () => void;
+    isRunning: () => boolean;
+    // 時間の進む速さ（1 が等速）。update の刻み幅は変えずに呼ぶ回数を増減する
+    setTimeScale: (scale: number) => void;
+    timeScale: () => number;
+    // 一時停止中は render だけ呼ぶ
+    setPaused: (paused: boolean) => void;
+    isPaused: () => boolean;
+    // 次のフレームで update を1回だけ呼ぶ（一時停止中のコマ送り）
+    stepOnce: () => void;
+}
+
+/**
+ * requestAnimationFrame で駆動する固定タイムステップのゲームループ。
+ * 表示のリフレッシュレートに関係なく update は stepMs 刻みで呼ばれる。
+ */
+export const createGameLoop = (
+    { update, render }: GameLoopHandlers,
+    stepMs: number = FIXED_STEP_MS
+): GameLoop => {
+    let frameId: number | null = null;
+    let lastTime = 0;
+    let accumulator = 0;
+    let timeScale = 1;
+    let paused = false;
+    let pendingSteps = 0;
+
+    const frame = (now: number) => {
+        if (!paused) {
+            accumulator += Math.min(now - lastTime, MAX_FRAME_MS) * timeScale;
+        }
+        lastTime = now;
+
+        while (accumulator >= stepMs) {
+            update(stepMs);
+            accumulator -= stepMs;
+        }
+        while (pendingSteps > 0) {
+            update(stepMs);
+            pendingSteps--;
+        }
+        render(accumulator / stepMs);
+
+        frameId = requestAnimationFrame(frame);
+    };
+
+    return {
+        start: () => {
+            if (frameId !== null) return;
+            lastTime = performance.now();
+            accumulator = 0;
+            frameId = requestAnimationFrame(frame);
+        },
+        stop: () => {
+            if (frameId === null) return;
+            cancelAnimationFrame(frameId);
+            frameId = null;
+        },
+        isRunning: () => frameId !== null,
+        setTimeScale: (scale) => {
+            timeScale = Math.max(scale, 0);
+        },
+        timeScale: () => timeScale,
+        setPaused: (value) => {
+            paused = value;
+        },
+        isPaused: () => paused,
+        stepOnce: () => {
+            pendingSteps++;
+        }
+    };
+};
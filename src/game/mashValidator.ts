@@ -0,0 +1,70 @@
+// ランキングに残さない理由。人間離れした連打か、開発コマンドで状態を書き換えた（debug）か、
+// 調整値を自由に変えられるカスタムの難易度で遊んだ（custom）
+export type MashFlag = 'turbo' | 'superhuman' | 'debug' | 'custom';
+
+export interface MashValidator {
+    lastPressTime: number | null;
+    // 直近の押下間隔（ms）
+    intervals: number[];
+    flags: MashFlag[];
+}
+
+// 判定に使う押下間隔の数
+const WINDOW_SIZE = 24;
+// これより長い間隔は連打の途切れとみなして判定をやり直す
+const MAX_MASH_INTERVAL_MS = 400;
+// 間隔のばらつき（変動係数）がこれ未満なら連射機能やスクリプトとみなす
+const MIN_INTERVAL_VARIATION = 0.035;
+// 平均間隔がこれ未満（25回/秒超）が続くなら人間の限界を超えている
+const MIN_HUMAN_INTERVAL_MS = 40;
+
+export const createMashValidator = (): MashValidator => ({
+    lastPressTime: null,
+    intervals: [],
+    flags: []
+});
+
+export const flagRun = (validator: MashValidator, flag: MashFlag) => {
+    if (!validator.flags.includes(flag)) {
+        validator.flags.push(flag);
+    }
+};
+
+const inspectWindow = (validator: MashValidator) => {
+    const { intervals } = validator;
+    if (intervals.length < WINDOW_SIZE) return;
+
+    const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+    const variance = intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / intervals.length;
+
+    if (mean < MIN_HUMAN_INTERVAL_MS) {
+        flagRun(validator, 'superhuman');
+    }
+    if (Math.sqrt(variance) / mean < MIN_INTERVAL_VARIATION) {
+        flagRun(validator, 'turbo');
+    }
+};
+
+/**
+ * 押下時刻（イベントのタイムスタンプ）を記録し、間隔が機械的に一定すぎないか調べる。
+ * 入力は捨てずに、怪しいプレイに flags を立てるだけにする。
+ */
+export const validateMashes = (validator: MashValidator, pressTimes: number[]) => {
+    for (const time of pressTimes) {
+        if (validator.lastPressTime !== null) {
+            const interval = time - validator.lastPressTime;
+            if (interval > MAX_MASH_INTERVAL_MS) {
+                validator.intervals = [];
+            } else {
+                validator.intervals.push(interval);
+                if (validator.intervals.length > WINDOW_SIZE) {
+                    validator.intervals.shift();
+                }
+                inspectWindow(validator);
+            }
+        }
+        validator.lastPressTime = time;
+    }
+};
+
+export const isRanked = (validator: MashValidator) => validator.flags.length === 0;
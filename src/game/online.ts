@@ -0,0 +1,348 @@
+import { MAX_POWER } from './simulation';
+import { ROCKETS, STANDARD_FUEL_CAPACITY } from './catalog';
+import type { GameConfig } from './config';
+import type { GameState } from './types';
+import { PROTOCOL_VERSION, type GhostSnapshot, type PeerMessage, type RelayMessage } from '../net/protocol';
+import type { Transport } from '../net/transport';
+
+/**
+ * オンライン対戦の接続の状態。
+ * roomFull と lost は終わった状態で、もう何も送受信しない。
+ */
+export type OnlineStatus = 'connecting' | 'connected' | 'roomFull' | 'lost';
+
+// 待機中に見えているほかのプレイヤー
+export interface Peer {
+    // 相手と中継サーバーの往復時間（ms、相手が測ったもの）
+    rtt: number;
+    // 待機画面にいて次のレースに出られる（待機中だけ hello を送ってくるので、それで分かる）
+    isReady: boolean;
+}
+
+// レース中の相手。最後に届いたスナップショットから今の様子を推測して描く
+export interface Ghost {
+    id: number;
+    snapshot: GhostSnapshot | null;
+    // スナップショットが届いた時刻（ms）
+    receivedAt: number;
+    rtt: number;
+    // スナップショットのあとに届いた連打の回数
+    mashesSinceSnapshot: number;
+    // 最後に何か届いた時刻（ms）
+    lastHeard: number;
+    // 途中で抜けた（切断または応答なし）
+    hasLeft: boolean;
+}
+
+// 部屋の主が決めたレースの条件
+export interface OnlineStart {
+    seed: number;
+    config: GameConfig;
+    players: number[];
+}
+
+type InboxMessage = RelayMessage | { type: 'disconnected' };
+
+export interface OnlineRace {
+    transport: Transport;
+    // 届いたメッセージ（次の pumpOnline でまとめて処理する）
+    inbox: InboxMessage[];
+    status: OnlineStatus;
+    // 中継サーバーが振った自分の番号（welcome が届くまで null）
+    id: number | null;
+    peers: Map<number, Peer>;
+    // 自分と中継サーバーの往復時間（ms）
+    rtt: number;
+    lastPingAt: number;
+    // 始まったレースの条件（待機中は null）
+    start: OnlineStart | null;
+    // レースの合図を受けたがまだ走り出していない
+    startPending: boolean;
+    // 部屋の主は合図が相手に届くまで待ってから走り出す（ms）
+    startDelayMs: number;
+    ghosts: Map<number, Ghost>;
+    // 最後にスナップショットを送ったゲーム内時刻（ms）
+    lastSnapshotTime: number;
+    // 自分が終わったことを知らせたか
+    sentFinish: boolean;
+}
+
+// 中継サーバーに ping を送る間隔（待機中はこのときに hello も送る）
+export const PING_INTERVAL_MS = 1000;
+// レース中にスナップショットを送る間隔（ゲーム内時刻）
+export const SNAPSHOT_INTERVAL_MS = 100;
+// これだけ何も届かなければ抜けたとみなす
+export const GHOST_TIMEOUT_MS = 5000;
+// 届いたスナップショットから先を推測する上限（回線が詰まったときに幽霊が飛んでいかないように）
+export const MAX_EXTRAPOLATION_MS = 500;
+
+const isGhostFinished = ({ snapshot }: Ghost) => snapshot !== null && (snapshot.isExploded || snapshot.isFailed);
+
+const broadcast = (race: OnlineRace, message: PeerMessage) => {
+    race.transport.send({ type: 'broadcast', message });
+};
+
+// 待機中なら部屋のみんなに知らせる
+const announce = (race: OnlineRace) => {
+    if (!race.start) broadcast(race, { type: 'hello', version: PROTOCOL_VERSION, rtt: race.rtt });
+};
+
+/**
+ * 接続を受け取ってオンライン対戦の状態を作る。
+ * 届いたメッセージと切断はいったん inbox に積み、ゲームのステップの中で処理する。
+ */
+export const joinOnline = (transport: Transport, now: number): OnlineRace => {
+    const race: OnlineRace = {
+        transport,
+        inbox: [],
+        status: 'connecting',
+        id: null,
+        peers: new Map(),
+        rtt: 0,
+        lastPingAt: now,
+        start: null,
+        startPending: false,
+        startDelayMs: 0,
+        ghosts: new Map(),
+        lastSnapshotTime: 0,
+        sentFinish: false
+    };
+    transport.onMessage(message => race.inbox.push(message));
+    transport.onClose(() => race.inbox.push({ type: 'disconnected' }));
+    transport.send({ type: 'ping', sent: now });
+    return race;
+};
+
+export const leaveOnline = (race: OnlineRace) => {
+    if (race.status === 'connecting' || race.status === 'connected') race.transport.close();
+    race.status = 'lost';
+};
+
+// 一番古くからいる人（番号が一番小さい人）が部屋の主
+export const isHost = ({ id, peers }: OnlineRace) => id !== null && [...peers.keys()].every(peer => peer > id);
+
+// 相手に届くまでのおおよその時間（自分→中継サーバー→相手）
+const oneWayMs = (race: OnlineRace, peerRtt: number) => (race.rtt + peerRtt) / 2;
+
+const hearFrom = (race: OnlineRace, from: number, message: PeerMessage, now: number) => {
+    if (message.type === 'hello') {
+        // 版の違う相手とは遊べないので見なかったことにする
+        if (message.version === PROTOCOL_VERSION) race.peers.set(from, { rtt: message.rtt, isReady: true });
+        else race.peers.delete(from);
+        return;
+    }
+    if (!race.peers.has(from)) return;
+
+    if (message.type === 'start') {
+        if (race.id === null || !message.players.includes(race.id)) return;
+        beginRace(race, message, 0, now);
+        return;
+    }
+
+    const ghost = race.ghosts.get(from);
+    if (!ghost || ghost.hasLeft) return;
+    ghost.lastHeard = now;
+    if (message.type === 'mash') {
+        if (!ghost.snapshot || message.time > ghost.snapshot.time) ghost.mashesSinceSnapshot += message.count;
+    } else if (message.type === 'snapshot') {
+        ghost.snapshot = message.snapshot;
+        ghost.receivedAt = now;
+        ghost.rtt = message.rtt;
+        ghost.mashesSinceSnapshot = 0;
+    }
+};
+
+const beginRace = (race: OnlineRace, start: OnlineStart, startDelayMs: number, now: number) => {
+    race.start = { seed: start.seed, config: start.config, players: start.players };
+    race.startPending = true;
+    race.startDelayMs = startDelayMs;
+    race.lastSnapshotTime = 0;
+    race.sentFinish = false;
+    race.peers.forEach(peer => {
+        peer.isReady = false;
+    });
+    race.ghosts = new Map(start.players
+        .filter(id => id !== race.id)
+        .map(id => [id, {
+            id,
+            snapshot: null,
+            receivedAt: now,
+            rtt: race.peers.get(id)?.rtt ?? 0,
+            mashesSinceSnapshot: 0,
+            lastHeard: now,
+            hasLeft: false
+        }]));
+};
+
+/**
+ * 届いたメッセージを処理し、ping（待機中は hello も）を送り、応答のない相手を抜けたことにする。
+ * 毎ステップ呼ぶ。
+ */
+export const pumpOnline = (race: OnlineRace, now: number) => {
+    race.inbox.splice(0).forEach(message => {
+        if (race.status === 'roomFull' || race.status === 'lost') return;
+        switch (message.type) {
+            case 'welcome':
+                race.id = message.id;
+                race.status = 'connected';
+                message.peers.forEach(id => race.peers.set(id, { rtt: 0, isReady: false }));
+                announce(race);
+                break;
+            case 'peerJoined':
+                race.peers.set(message.id, { rtt: 0, isReady: false });
+                announce(race);
+                break;
+            case 'peerLeft': {
+                race.peers.delete(message.id);
+                const ghost = race.ghosts.get(message.id);
+                if (ghost) ghost.hasLeft = true;
+                break;
+            }
+            case 'roomFull':
+                race.status = 'roomFull';
+                race.transport.close();
+                break;
+            case 'pong':
+                race.rtt = Math.max(now - message.sent, 0);
+                break;
+            case 'peer':
+                hearFrom(race, message.from, message.message, now);
+                break;
+            case 'disconnected':
+                race.status = 'lost';
+                break;
+        }
+    });
+    if (race.status !== 'connected') return;
+
+    if (now - race.lastPingAt >= PING_INTERVAL_MS) {
+        race.lastPingAt = now;
+        race.transport.send({ type: 'ping', sent: now });
+        announce(race);
+    }
+    if (!race.start) return;
+    race.ghosts.forEach(ghost => {
+        // 終わった相手はもう何も送ってこない
+        if (isGhostFinished(ghost)) return;
+        if (now - ghost.lastHeard >= GHOST_TIMEOUT_MS) ghost.hasLeft = true;
+    });
+};
+
+// 待機に戻る（次のレースの合図を待つ）
+export const returnToLobby = (race: OnlineRace) => {
+    race.start = null;
+    race.startPending = false;
+    race.ghosts = new Map();
+    if (race.status === 'connected') announce(race);
+};
+
+// 次のレースに出られる相手
+export const readyPeers = (race: OnlineRace) => [...race.peers.entries()].filter(([, peer]) => peer.isReady);
+
+/**
+ * 部屋の主が待機画面にいる人でレースを始める。合図が一番遠い相手に届くころに自分も走り出すように待つ。
+ */
+export const startOnlineRace = (race: OnlineRace, seed: number, config: GameConfig, now: number) => {
+    const ready = readyPeers(race);
+    if (race.id === null || !isHost(race) || ready.length === 0) return;
+    const players = [race.id, ...ready.map(([id]) => id)];
+    broadcast(race, { type: 'start', seed, config, players });
+    const delay = Math.max(...ready.map(([, peer]) => oneWayMs(race, peer.rtt)));
+    beginRace(race, { seed, config, players }, delay, now);
+};
+
+// 相手に送る GameState の一部
+export const toSnapshot = (state: GameState): GhostSnapshot => ({
+    time: state.time,
+    rocket: state.rocket.id,
+    scene: state.scene,
+    power: state.power,
+    altitude: state.altitude,
+    velocity: state.velocity,
+    isExploded: state.isExploded,
+    isFailed: state.isFailed,
+    endTime: state.endTime
+});
+
+/**
+ * 1ステップ分の自分の様子を送る。連打はその都度、スナップショットは一定間隔と終わった瞬間に送る。
+ */
+export const sendProgress = (race: OnlineRace, state: GameState, mashes: number) => {
+    if (race.status !== 'connected' || !race.start) return;
+    if (mashes > 0) broadcast(race, { type: 'mash', time: state.time, count: mashes });
+
+    const isFinished = state.isExploded || state.isFailed;
+    if (state.time - race.lastSnapshotTime < SNAPSHOT_INTERVAL_MS && !(isFinished && !race.sentFinish)) return;
+    race.lastSnapshotTime = state.time;
+    race.sentFinish = isFinished;
+    broadcast(race, { type: 'snapshot', snapshot: toSnapshot(state), rtt: race.rtt });
+};
+
+/**
+ * 幽霊の今の様子を推測する。届いたスナップショットは相手に届くまでの時間と届いてからの時間だけ古いので、
+ * 飛んでいれば速度でその分だけ進め、発射前ならそのあとに届いた連打の分だけ燃料を足す。
+ */
+export const predictGhost = (race: OnlineRace, ghost: Ghost, now: number): GhostSnapshot | null => {
+    const { snapshot } = ghost;
+    if (!snapshot || !race.start) return snapshot;
+    if (ghost.hasLeft || isGhostFinished(ghost)) return snapshot;
+
+    const lagMs = Math.min(oneWayMs(race, ghost.rtt) + now - ghost.receivedAt, MAX_EXTRAPOLATION_MS);
+    if (snapshot.scene === 'power') {
+        const rocket = ROCKETS[snapshot.rocket];
+        const powerPerMash = race.start.config.powerPerMash * STANDARD_FUEL_CAPACITY / rocket.fuelCapacity;
+        return { ...snapshot, power: Math.min(snapshot.power + ghost.mashesSinceSnapshot * powerPerMash, MAX_POWER) };
+    }
+    return {
+        ...snapshot,
+        time: snapshot.time + lagMs,
+        altitude: Math.max(snapshot.altitude + snapshot.velocity * lagMs / 1000, 0)
+    };
+};
+
+export type StandingOutcome = 'orbit' | 'flying' | 'failed' | 'left';
+
+export interface Standing {
+    id: number;
+    isLocal: boolean;
+    outcome: StandingOutcome;
+    // 終わった時刻（ゲーム内時刻、ms）
+    time: number;
+    altitude: number;
+}
+
+const outcomeOf = (snapshot: GhostSnapshot | null, hasLeft: boolean): StandingOutcome => {
+    if (snapshot?.isExploded) return 'orbit';
+    if (snapshot?.isFailed) return 'failed';
+    return hasLeft ? 'left' : 'flying';
+};
+
+const OUTCOME_ORDER: Record<StandingOutcome, number> = { orbit: 0, flying: 1, failed: 2, left: 3 };
+
+/**
+ * 順位表。軌道投入に成功した人を早い順に、次にまだ飛んでいる人、失敗した人を高度の高い順に並べ、
+ * 途中で抜けた人（自分の回線が切れたあとに終わらなかった人も）は最下位にする。
+ */
+export const rankStandings = (race: OnlineRace, state: GameState): Standing[] => {
+    const isLost = race.status === 'lost';
+    const standings: Standing[] = [
+        {
+            id: race.id ?? 0,
+            isLocal: true,
+            outcome: outcomeOf(toSnapshot(state), false),
+            time: state.endTime,
+            altitude: state.altitude
+        },
+        ...[...race.ghosts.values()].map(ghost => ({
+            id: ghost.id,
+            isLocal: false,
+            outcome: outcomeOf(ghost.snapshot, ghost.hasLeft || isLost),
+            time: ghost.snapshot?.endTime ?? 0,
+            altitude: ghost.snapshot?.altitude ?? 0
+        }))
+    ];
+    return standings.sort((a, b) => {
+        if (a.outcome !== b.outcome) return OUTCOME_ORDER[a.outcome] - OUTCOME_ORDER[b.outcome];
+        return a.outcome === 'orbit' ? a.time - b.time : b.altitude - a.altitude;
+    });
+};
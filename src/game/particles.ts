@@ -0,0 +1,178 @@
+// 描画方法（circle: 円、pixel: ドット）
+export type ParticleShape = 'circle' | 'pixel';
+
+/**
+ * パーティクル1個分の状態。座標は発射台基部を原点としたワールド座標（px, 下が正）。
+ * 使い終わったものは active=false にしてプール内で再利用する。
+ */
+export interface Particle {
+    active: boolean;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    // 残り寿命と最大寿命（ms）
+    life: number;
+    maxLife: number;
+    size: number;
+    // 寿命の終わりまでにサイズが何倍になるか
+    growth: number;
+    // px/s^2
+    gravity: number;
+    // 1秒あたりの速度減衰率（0〜1）
+    drag: number;
+    // 寿命に応じて先頭から末尾へ変化する色
+    palette: readonly string[];
+    shape: ParticleShape;
+}
+
+export interface ParticlePool {
+    particles: Particle[];
+    // 次に空きを探し始める位置
+    cursor: number;
+}
+
+type Range = readonly [number, number];
+
+export interface EmitterConfig {
+    // 1秒あたりの放出数
+    rate: number;
+    // 放出方向（ラジアン、0が右・PI/2が下）と広がり
+    angle: number;
+    spread: number;
+    speed: Range;
+    life: Range;
+    size: Range;
+    // 放出位置のばらつき（px）
+    jitter: number;
+    growth: number;
+    gravity: number;
+    drag: number;
+    palette: readonly string[];
+    shape: ParticleShape;
+}
+
+export interface Emitter {
+    config: EmitterConfig;
+    // 端数の放出数を次のステップに持ち越す
+    carry: number;
+}
+
+const createParticle = (): Particle => ({
+    active: false,
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+    life: 0,
+    maxLife: 1,
+    size: 1,
+    growth: 1,
+    gravity: 0,
+    drag: 0,
+    palette: [],
+    shape: 'pixel'
+});
+
+export const createParticlePool = (capacity: number): ParticlePool => ({
+    particles: Array.from({ length: capacity }, createParticle),
+    cursor: 0
+});
+
+export const createEmitter = (config: EmitterConfig): Emitter => ({ config, carry: 0 });
+
+const pick = ([min, max]: Range, random: () => number) => min + random() * (max - min);
+
+// 空いているパーティクルを探す。満杯なら一番古い位置のものを上書きする
+const acquire = (pool: ParticlePool): Particle => {
+    const { particles } = pool;
+    for (let i = 0; i < particles.length; i++) {
+        const index = (pool.cursor + i) % particles.length;
+        if (!particles[index].active) {
+            pool.cursor = (index + 1) % particles.length;
+            return particles[index];
+        }
+    }
+    const particle = particles[pool.cursor];
+    pool.cursor = (pool.cursor + 1) % particles.length;
+    return particle;
+};
+
+/**
+ * エミッタから (x, y) にパーティクルを放出する。
+ * intensity で放出レートを倍率調整できる（0なら何も出さない）。
+ */
+export const emit = (
+    pool: ParticlePool,
+    emitter: Emitter,
+    x: number,
+    y: number,
+    dtMs: number,
+    intensity: number = 1,
+    random: () => number = Math.random
+) => {
+    const { config } = emitter;
+    emitter.carry += config.rate * intensity * dtMs / 1000;
+
+    while (emitter.carry >= 1) {
+        emitter.carry--;
+
+        const particle = acquire(pool);
+        const angle = config.angle + (random() - 0.5) * config.spread;
+        const speed = pick(config.speed, random);
+        const life = pick(config.life, random);
+
+        particle.active = true;
+        particle.x = x + (random() - 0.5) * config.jitter;
+        particle.y = y + (random() - 0.5) * config.jitter;
+        particle.vx = Math.cos(angle) * speed;
+        particle.vy = Math.sin(angle) * speed;
+        particle.life = life;
+        particle.maxLife = life;
+        particle.size = pick(config.size, random);
+        particle.growth = config.growth;
+        particle.gravity = config.gravity;
+        particle.drag = config.drag;
+        particle.palette = config.palette;
+        particle.shape = config.shape;
+    }
+};
+
+// 全パーティクルを dtMs だけ進める
+export const updateParticles = (pool: ParticlePool, dtMs: number) => {
+    const dt = dtMs / 1000;
+
+    for (const particle of pool.particles) {
+        if (!particle.active) continue;
+
+        particle.life -= dtMs;
+        if (particle.life <= 0) {
+            particle.active = false;
+            continue;
+        }
+
+        const damping = Math.pow(1 - particle.drag, dt);
+        particle.vx *= damping;
+        particle.vy = particle.vy * damping + particle.gravity * dt;
+        particle.x += particle.vx * dt;
+        particle.y += particle.vy * dt;
+    }
+};
+
+export const clearParticles = (pool: ParticlePool) => {
+    pool.particles.forEach(particle => {
+        particle.active = false;
+    });
+};
+
+export const countActiveParticles = (pool: ParticlePool) =>
+    pool.particles.reduce((count, particle) => count + (particle.active ? 1 : 0), 0);
+
+// 寿命の経過割合（0: 生まれた直後, 1: 消える直前）
+export const particleAge = (particle: Particle) => 1 - particle.life / particle.maxLife;
+
+export const particleColor = (particle: Particle) => {
+    const { palette } = particle;
+    const index = Math.min(Math.floor(particleAge(particle) * palette.length), palette.length - 1);
+    return palette[index];
+};
@@ -0,0 +1,20 @@
+// 32bit のシードから再現可能な乱数列を作る（mulberry32）
+export const createRandom = (seed: number): (() => number) => {
+    let value = seed >>> 0;
+    return () => {
+        value = (value + 0x6D2B79F5) >>> 0;
+        let t = value;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// 2つの整数を混ぜて新しいシードにする（描画ごとの乱数などに使う）
+export const mixSeed = (seed: number, value: number) => {
+    let hash = Math.imul(seed ^ value, 0x45D9F3B) >>> 0;
+    hash = Math.imul(hash ^ (hash >>> 16), 0x45D9F3B) >>> 0;
+    return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,117 @@
+import { PRESET_IDS, validateConfig, type GameConfig, type PresetId } from './config';
+import { ROCKET_IDS, SITE_IDS, type Loadout, type RocketId, type SiteId } from './catalog';
+import { INPUT_MODES, type InputMode } from './accessibility';
+
+// ゲームの挙動が変わったら上げる（古いリプレイは同じ結果にならないので読み込まない）
+// 2: ロケットと発射場、3: 軌道投入シーン、4: 推力と空気抵抗による飛行
+export const REPLAY_FORMAT_VERSION = 4;
+
+/**
+ * 1プレイを再現するための記録。
+ * 連打は「押されたステップ番号」の差分列で持つ（同じステップで複数回押せば 0 が続く）。
+ */
+export interface Replay {
+    version: number;
+    seed: number;
+    preset: PresetId;
+    config: GameConfig;
+    loadout: Loadout;
+    // 入力方式。記録する連打は補助入力が作ったあとのものなので、再生には使わず結果の表示にだけ使う
+    inputMode: InputMode;
+    // プレイ時の論理解像度（星と雲の配置に影響する）
+    width: number;
+    height: number;
+    // シミュレーションの1ステップの長さ（ms）
+    stepMs: number;
+    mashes: number[];
+    // 記録時の最終スコア（確認用）
+    score: number;
+    recordedAt: number;
+}
+
+export interface ReplayRecorder {
+    // 連打があったステップ番号（押された回数分並ぶ）
+    mashSteps: number[];
+}
+
+export class ReplayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReplayError';
+    }
+}
+
+export const createReplayRecorder = (): ReplayRecorder => ({ mashSteps: [] });
+
+export const recordMashes = (recorder: ReplayRecorder, stepIndex: number, mashes: number) => {
+    for (let i = 0; i < mashes; i++) {
+        recorder.mashSteps.push(stepIndex);
+    }
+};
+
+export const encodeMashes = (mashSteps: number[]) =>
+    mashSteps.map((step, i) => step - (i === 0 ? 0 : mashSteps[i - 1]));
+
+// ステップ番号ごとの連打回数に戻す
+export const decodeMashes = (deltas: number[]) => {
+    const counts = new Map<number, number>();
+    let step = 0;
+    deltas.forEach(delta => {
+        step += delta;
+        counts.set(step, (counts.get(step) ?? 0) + 1);
+    });
+    return counts;
+};
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const parseLoadout = (raw: unknown): Loadout => {
+    const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+    if (!ROCKET_IDS.includes(data.rocket as RocketId) || !SITE_IDS.includes(data.site as SiteId)) {
+        throw new ReplayError('Replay loadout is invalid');
+    }
+    return { rocket: data.rocket as RocketId, site: data.site as SiteId };
+};
+
+/**
+ * 読み込んだ JSON をリプレイとして検証する。不正なら ReplayError を投げる。
+ */
+export const parseReplay = (raw: unknown): Replay => {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new ReplayError('Replay is not an object');
+    }
+
+    const data = raw as Record<string, unknown>;
+    if (data.version !== REPLAY_FORMAT_VERSION) {
+        throw new ReplayError(`Unsupported replay version: ${String(data.version)}`);
+    }
+    if (!isNonNegativeInteger(data.seed)) {
+        throw new ReplayError('Replay seed is invalid');
+    }
+    if (!PRESET_IDS.includes(data.preset as PresetId)) {
+        throw new ReplayError('Replay preset is invalid');
+    }
+    if (![data.width, data.height, data.stepMs].every(value => typeof value === 'number' && value > 0)) {
+        throw new ReplayError('Replay dimensions are invalid');
+    }
+    if (!Array.isArray(data.mashes) || !data.mashes.every(isNonNegativeInteger)) {
+        throw new ReplayError('Replay inputs are invalid');
+    }
+
+    return {
+        version: REPLAY_FORMAT_VERSION,
+        seed: data.seed,
+        preset: data.preset as PresetId,
+        config: validateConfig(data.config),
+        loadout: parseLoadout(data.loadout),
+        // 入力方式を選べるようになる前のリプレイはすべて連打
+        inputMode: INPUT_MODES.includes(data.inputMode as InputMode) ? data.inputMode as InputMode : 'mash',
+        width: data.width as number,
+        height: data.height as number,
+        stepMs: data.stepMs as number,
+        mashes: data.mashes,
+        score: typeof data.score === 'number' ? data.score : 0,
+        recordedAt: typeof data.recordedAt === 'number' ? data.recordedAt : 0
+    };
+};
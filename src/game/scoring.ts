@@ -0,0 +1,148 @@
+import type { GameScene, GameState } from './types';
+import type { MashFlag } from './mashValidator';
+import type { PresetId } from './config';
+import type { InputMode } from './accessibility';
+import { orbitAccuracy } from './simulation';
+
+export type Rank = 'S' | 'A' | 'B' | 'C';
+
+// シーンごとの連打記録
+export interface SceneStats {
+    presses: number;
+    // 1秒間の連打数の最大値
+    peakTps: number;
+}
+
+export interface ScoreTracker {
+    scenes: Record<GameScene, SceneStats>;
+    // パワーシーンで最初に押した時刻（未入力なら null）
+    firstPressTime: number | null;
+    // 直近1秒間に押された時刻
+    recentPresses: number[];
+}
+
+export interface ScoreSummary {
+    scenes: Record<GameScene, SceneStats & { points: number }>;
+    // 最初の連打から満タンまで（ms）
+    chargeTime: number | null;
+    // 発射可能になってから最大出力まで（ms）
+    maxShakeTime: number | null;
+    altitude: number;
+    // 軌道投入の操作の正確さの平均（0〜1、軌道投入シーンに届かなければ null）
+    orbitAccuracy: number | null;
+    success: boolean;
+    total: number;
+    rank: Rank;
+    // プレイした難易度
+    preset: PresetId;
+    // 入力方式（補助入力の記録はランキングを分ける）
+    inputMode: InputMode;
+    // 不自然な連打が検出されたプレイはランキング対象外
+    ranked: boolean;
+    unrankedReasons: MashFlag[];
+}
+
+const TPS_WINDOW_MS = 1000;
+
+// この時間で達成すると満点
+const CHARGE_PAR_MS = 4000;
+const MAX_SHAKE_PAR_MS = 6000;
+const SCENE_MAX_POINTS = 5000;
+const TPS_BONUS_PER_TAP = 100;
+
+const RANK_THRESHOLDS: readonly [Rank, number][] = [
+    ['S', 18500],
+    ['A', 14500],
+    ['B', 9500]
+];
+
+const createSceneStats = (): SceneStats => ({ presses: 0, peakTps: 0 });
+
+export const createScoreTracker = (): ScoreTracker => ({
+    scenes: {
+        power: createSceneStats(),
+        launch: createSceneStats(),
+        atmosphere: createSceneStats(),
+        orbit: createSceneStats()
+    },
+    firstPressTime: null,
+    recentPresses: []
+});
+
+/**
+ * 1ステップ分の連打を記録する。
+ * state は連打を適用する前の状態（押された時点のシーンと時刻）。
+ */
+export const trackScore = (tracker: ScoreTracker, state: GameState, mashes: number) => {
+    const recent = tracker.recentPresses.filter(time => state.time - time < TPS_WINDOW_MS);
+    tracker.recentPresses = recent;
+    if (mashes === 0) return;
+
+    const stats = tracker.scenes[state.scene];
+    stats.presses += mashes;
+    for (let i = 0; i < mashes; i++) {
+        recent.push(state.time);
+    }
+    stats.peakTps = Math.max(stats.peakTps, recent.length);
+
+    if (tracker.firstPressTime === null) {
+        tracker.firstPressTime = state.time;
+    }
+};
+
+// 目標時間に対する達成度で点数をつける
+const timePoints = (time: number | null, parMs: number) =>
+    time === null ? 0 : Math.round(Math.min(1, parMs / Math.max(time, 1)) * SCENE_MAX_POINTS);
+
+export const rankFor = (total: number): Rank =>
+    RANK_THRESHOLDS.find(([, threshold]) => total >= threshold)?.[0] ?? 'C';
+
+export const summarizeScore = (
+    tracker: ScoreTracker,
+    state: GameState,
+    preset: PresetId,
+    unrankedReasons: MashFlag[] = [],
+    inputMode: InputMode = 'mash'
+): ScoreSummary => {
+    const chargeTime = state.isFullPower && tracker.firstPressTime !== null
+        ? state.fullPowerTime - tracker.firstPressTime
+        : null;
+    const maxShakeTime = state.isLaunchSuccess
+        ? state.atmosphereStartTime - (state.launchStartTime + state.config.countdownMs)
+        : null;
+    const altitude = Math.floor(state.altitude);
+    const accuracy = state.scene === 'orbit' ? orbitAccuracy(state) : null;
+
+    const { power, launch, atmosphere, orbit } = tracker.scenes;
+    const scenes = {
+        power: { ...power, points: timePoints(chargeTime, CHARGE_PAR_MS) },
+        launch: { ...launch, points: timePoints(maxShakeTime, MAX_SHAKE_PAR_MS) },
+        atmosphere: {
+            ...atmosphere,
+            points: state.isLaunchSuccess
+                ? Math.round(Math.min(1, state.altitude / state.missionAltitude) * SCENE_MAX_POINTS)
+                : 0
+        },
+        orbit: { ...orbit, points: Math.round((accuracy ?? 0) * SCENE_MAX_POINTS) }
+    };
+
+    // 軌道投入は連打ではなくタイミングなので連打数のボーナスには含めない
+    const peakTps = Math.max(power.peakTps, launch.peakTps, atmosphere.peakTps);
+    const total = scenes.power.points + scenes.launch.points + scenes.atmosphere.points + scenes.orbit.points
+        + peakTps * TPS_BONUS_PER_TAP;
+
+    return {
+        scenes,
+        chargeTime,
+        maxShakeTime,
+        altitude,
+        orbitAccuracy: accuracy,
+        success: state.isExploded,
+        total,
+        rank: rankFor(total),
+        preset,
+        inputMode,
+        ranked: unrankedReasons.length === 0,
+        unrankedReasons: [...unrankedReasons]
+    };
+};
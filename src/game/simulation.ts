@@ -0,0 +1,261 @@
+import type { GameState, OrbitJudgement, OrbitStage, StepInput } from './types';
+import { NORMAL_CONFIG, type GameConfig } from './config';
+import { createRandom } from './random';
+import { smoothMashRate, updateFlight } from './flight';
+import { DEFAULT_LOADOUT, LAUNCH_SITES, ROCKETS, STANDARD_FUEL_CAPACITY, type Loadout } from './catalog';
+
+// 燃料は%表示
+export const MAX_POWER = 100;
+
+export const NO_INPUT: StepInput = { mashes: 0 };
+
+export const ORBIT_STAGES: readonly OrbitStage[] = ['stageSeparation', 'fairingJettison', 'orbitalBurn'];
+
+// 軌道投入シーンの最初の操作までに刻む拍の数
+export const ORBIT_LEAD_BEATS = 3;
+
+// 初期状態を生成（画面サイズ・調整値・乱数のシード・機体と発射場は外から渡す）
+export const createInitialState = (
+    width: number,
+    height: number,
+    config: GameConfig = NORMAL_CONFIG,
+    seed: number = 0,
+    loadout: Loadout = DEFAULT_LOADOUT
+): GameState => {
+    const random = createRandom(seed);
+    return {
+        scene: 'power',
+        config,
+        rocket: ROCKETS[loadout.rocket],
+        site: LAUNCH_SITES[loadout.site],
+        seed,
+        time: 0,
+        power: 0,
+        rocketY: 0,
+        altitude: 0,
+        velocity: 0,
+        mashRate: 0,
+        missionAltitude: config.orbitAltitudeKm * 1000,
+        isExploded: false,
+        isFailed: false,
+        endTime: 0,
+        stars: Array.from({ length: 50 }, () => ({
+            x: random() * width,
+            y: random() * height,
+            size: random() * 2 + 1,
+            brightness: random()
+        })),
+        clouds: Array.from({ length: 10 }, () => ({
+            x: random() * width,
+            y: random() * (height / 2),
+            width: random() * 100 + 50,
+            height: random() * 40 + 20,
+            speed: random() * 2 + 1
+        })),
+        isFullPower: false,
+        fullPowerTime: 0,
+        launchStartTime: 0,
+        isLaunching: false,
+        shakeIntensity: 0,
+        isLaunchSuccess: false,
+        atmosphereStartTime: 0,
+        orbitStartTime: 0,
+        orbitJudgements: []
+    };
+};
+
+// 連打1回分の処理（現在時刻 state.time に押されたものとして扱う）
+const applyMash = (state: GameState): GameState => {
+    if (state.isExploded || state.isFailed) return state;
+    const { config } = state;
+
+    switch (state.scene) {
+        case 'power': {
+            if (state.isFullPower) return state;
+            // タンクが大きいほど1回で増える割合は小さい
+            const powerPerMash = config.powerPerMash * STANDARD_FUEL_CAPACITY / state.rocket.fuelCapacity;
+            // この1回で満タンになるか
+            const isFullPower = state.power >= MAX_POWER - powerPerMash;
+            return {
+                ...state,
+                power: Math.min(state.power + powerPerMash, MAX_POWER),
+                isFullPower,
+                fullPowerTime: isFullPower ? state.time : state.fullPowerTime
+            };
+        }
+
+        case 'launch': {
+            if (state.time - state.launchStartTime < config.countdownMs) return state;
+            const maxShake = shakeThreshold(state);
+            const shakeIntensity = Math.min(state.shakeIntensity + config.shakePerMash, maxShake);
+            const isMaxPower = shakeIntensity >= maxShake;
+
+            return {
+                ...state,
+                isLaunching: true,
+                shakeIntensity,
+                isLaunchSuccess: isMaxPower ? true : state.isLaunchSuccess,
+                atmosphereStartTime: isMaxPower ? state.time : state.atmosphereStartTime,
+                scene: isMaxPower ? 'atmosphere' : 'launch'
+            };
+        }
+
+        case 'atmosphere':
+            // 上昇そのものは advanceTime で連打の速さから計算する
+            return state;
+
+        case 'orbit': {
+            const index = state.orbitJudgements.length;
+            if (index >= ORBIT_STAGES.length) return state;
+            // 判定の範囲より早い連打は無視する（連打し続けても当たらない）
+            const offsetMs = state.time - orbitTargetTime(state, index);
+            if (Math.abs(offsetMs) > config.orbitWindowMs) return state;
+            return settleOrbit(judgeOrbit(state, {
+                time: state.time,
+                offsetMs,
+                accuracy: 1 - Math.abs(offsetMs) / config.orbitWindowMs
+            }));
+        }
+    }
+};
+
+// 時間経過による処理（揺れの減衰とカウントダウン後のシーン遷移）
+const advanceTime = (state: GameState, dtMs: number): GameState => {
+    const { config } = state;
+    const time = state.time + dtMs;
+    let next: GameState = { ...state, time };
+
+    if (next.isLaunching) {
+        next.shakeIntensity = Math.max(next.shakeIntensity - config.shakeDecayPerSecond * dtMs / 1000, 0);
+    }
+
+    if (next.scene === 'power' && next.isFullPower && time - next.fullPowerTime >= config.countdownMs) {
+        next = {
+            ...next,
+            scene: 'launch',
+            launchStartTime: next.fullPowerTime + config.countdownMs,
+            isLaunching: false
+        };
+    }
+
+    // 発射後と大気圏突破のカウントダウン後は推力で飛ぶ
+    const isFlying = next.scene === 'launch'
+        ? next.isLaunching
+        : next.scene === 'atmosphere' && time - next.atmosphereStartTime >= config.countdownMs;
+    if (isFlying) {
+        next = updateFlight(next, dtMs);
+    }
+    if (next.scene === 'atmosphere' && next.altitude >= next.missionAltitude) {
+        next = { ...next, scene: 'orbit', orbitStartTime: time };
+    }
+
+    // 判定の範囲を過ぎても押されなかった操作は失敗
+    while (
+        next.scene === 'orbit' &&
+        next.orbitJudgements.length < ORBIT_STAGES.length &&
+        time > orbitTargetTime(next, next.orbitJudgements.length) + config.orbitWindowMs
+    ) {
+        next = settleOrbit(judgeOrbit(next, { time, offsetMs: null, accuracy: 0 }));
+    }
+
+    // 制限時間切れで打ち上げ失敗
+    if (
+        next.scene === 'launch' &&
+        !next.isFailed &&
+        time - next.launchStartTime >= config.countdownMs + config.launchTimeLimitMs
+    ) {
+        next = { ...next, isFailed: true, endTime: time };
+    }
+
+    return next;
+};
+
+const judgeOrbit = (state: GameState, judgement: OrbitJudgement): GameState => ({
+    ...state,
+    orbitJudgements: [...state.orbitJudgements, judgement]
+});
+
+// すべての操作の判定が出たら、正確さで軌道投入の成否を決める
+const settleOrbit = (state: GameState): GameState => {
+    if (state.orbitJudgements.length < ORBIT_STAGES.length || state.isExploded || state.isFailed) return state;
+    const isMissed = state.orbitJudgements.some(judgement => judgement.offsetMs === null);
+    const isSuccess = !isMissed && orbitAccuracy(state) >= state.config.orbitPassAccuracy;
+    return {
+        ...state,
+        isExploded: isSuccess,
+        isFailed: !isSuccess,
+        endTime: state.time
+    };
+};
+
+// index 番目の操作の目標時刻（軌道投入シーンの拍に合わせる）
+export const orbitTargetTime = ({ config, orbitStartTime }: GameState, index: number) =>
+    orbitStartTime + (ORBIT_LEAD_BEATS + index) * config.orbitBeatMs;
+
+// 判定済みの操作の正確さの平均（0〜1）
+export const orbitAccuracy = ({ orbitJudgements }: GameState) =>
+    orbitJudgements.length === 0
+        ? 0
+        : orbitJudgements.reduce((sum, judgement) => sum + judgement.accuracy, 0) / orbitJudgements.length;
+
+// 打ち上げの残り時間（ms）。カウントダウン中は制限時間いっぱいを返す
+export const launchTimeLeft = ({ config, time, launchStartTime }: GameState) =>
+    Math.max(
+        Math.min(
+            config.countdownMs + config.launchTimeLimitMs - (time - launchStartTime),
+            config.launchTimeLimitMs
+        ),
+        0
+    );
+
+// 連打が推力になる状態か
+const isThrustAccepted = (state: GameState) => {
+    const { config, time } = state;
+    switch (state.scene) {
+        case 'launch':
+            return !state.isFailed && time - state.launchStartTime >= config.countdownMs;
+        case 'atmosphere':
+            return time - state.atmosphereStartTime >= config.countdownMs;
+        default:
+            return false;
+    }
+};
+
+// 打ち上げ成功に必要な揺れの強さ（機体ごとに違う）
+export const shakeThreshold = ({ config, rocket }: GameState) => config.maxShake * rocket.shakeThreshold;
+
+// 打ち上げの出力（揺れ）の割合（0〜1）
+export const thrustRatio = (state: GameState) => state.shakeIntensity / shakeThreshold(state);
+
+/**
+ * ゲームを dtMs だけ進める純粋関数。
+ * 入力はステップ開始時点で適用し、その後に時間を進める。
+ */
+export const step = (state: GameState, input: StepInput, dtMs: number): GameState => {
+    // 推力になるのはカウントダウン後の連打だけ
+    const thrustMashes = isThrustAccepted(state) ? input.mashes : 0;
+    let next = state;
+    for (let i = 0; i < input.mashes; i++) {
+        next = applyMash(next);
+    }
+    next = { ...next, mashRate: smoothMashRate(next.mashRate, thrustMashes, dtMs) };
+    return advanceTime(next, dtMs);
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * 描画用に2つのステップ間を補間した状態を返す。
+ * シーンが切り替わった直後は補間せず新しい状態をそのまま使う。
+ */
+export const interpolateState = (prev: GameState, next: GameState, alpha: number): GameState => {
+    if (prev.scene !== next.scene) return next;
+    return {
+        ...next,
+        time: lerp(prev.time, next.time, alpha),
+        power: lerp(prev.power, next.power, alpha),
+        rocketY: lerp(prev.rocketY, next.rocketY, alpha),
+        altitude: lerp(prev.altitude, next.altitude, alpha),
+        shakeIntensity: lerp(prev.shakeIntensity, next.shakeIntensity, alpha)
+    };
+};
@@ -0,0 +1,79 @@
+import type { GameConfig } from './config';
+import type { LaunchSite, RocketSpec } from './catalog';
+
+export type GameScene = 'power' | 'launch' | 'atmosphere' | 'orbit';
+
+// 軌道投入シーンでタイミングを合わせる操作（この順に来る）
+export type OrbitStage = 'stageSeparation' | 'fairingJettison' | 'orbitalBurn';
+
+// 軌道投入の操作1回分の判定
+export interface OrbitJudgement {
+    // 判定が決まった時刻
+    time: number;
+    // 目標の時刻からのずれ（ms、早ければ負）。押せなかったら null
+    offsetMs: number | null;
+    // 0〜1（押せなかったら 0）
+    accuracy: number;
+}
+
+export interface GameState {
+    scene: GameScene;
+    // このプレイで使う調整値
+    config: GameConfig;
+    // 選ばれたロケットと発射場
+    rocket: RocketSpec;
+    site: LaunchSite;
+    // 星や雲の配置と描画の揺らぎに使う乱数のシード
+    seed: number;
+    // シミュレーション開始からの経過時間（ms）
+    time: number;
+    power: number;
+    // 画面上でロケットが上昇した量（ワールド座標の px）
+    rocketY: number;
+    // 実際の高度（m）と上昇速度（m/s）
+    altitude: number;
+    velocity: number;
+    // 平滑化した連打の速さ（回/秒）。推力のもとになる
+    mashRate: number;
+    // 大気圏シーンでこの高度（m）を超えると軌道投入シーンに移る
+    missionAltitude: number;
+    // 軌道投入に成功した（ミッション完了）
+    isExploded: boolean;
+    // 打ち上げの制限時間内に最大出力に届かなかった、または軌道投入に失敗した
+    isFailed: boolean;
+    // 成功または失敗が確定した時刻（未確定なら0）
+    endTime: number;
+    stars: Star[];
+    clouds: Cloud[];
+    isFullPower: boolean;
+    fullPowerTime: number;
+    launchStartTime: number;
+    isLaunching: boolean;
+    shakeIntensity: number;
+    isLaunchSuccess: boolean;
+    atmosphereStartTime: number;
+    orbitStartTime: number;
+    // ORBIT_STAGES の順に判定済みのもの
+    orbitJudgements: OrbitJudgement[];
+}
+
+export interface Star {
+    x: number;
+    y: number;
+    size: number;
+    brightness: number;
+}
+
+export interface Cloud {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    speed: number;
+}
+
+// 1ステップ分の入力
+export interface StepInput {
+    // このステップ中に押された連打の回数
+    mashes: number;
+}
@@ -0,0 +1,101 @@
+import { createEffects, updateEffects, type Effects } from './effects';
+import { detectEvents, type GameEvent } from './events';
+import { createRandom, mixSeed } from './random';
+import { createInitialState, step } from './simulation';
+import type { GameConfig } from './config';
+import type { Loadout } from './catalog';
+import type { GameState } from './types';
+import { assistMashes, createInputAssist, type InputAssist } from './assist';
+import type { InputMode } from './accessibility';
+
+export type PlayerIndex = 0 | 1;
+
+// 対戦で各プレイヤーが持つもの（1人プレイの Session のうちプレイに関わる部分）
+export interface VersusPlayer {
+    previous: GameState;
+    state: GameState;
+    effects: Effects;
+    random: () => number;
+    // 補助入力の途中の状態（プレイヤーごと）
+    assist: InputAssist;
+}
+
+// 1P・2Pそれぞれの連打の回数と、連打のボタンを押し続けているか
+export interface VersusInput {
+    playerMashes: readonly [number, number];
+    playerHolding: readonly [boolean, boolean];
+}
+
+export interface Versus {
+    players: [VersusPlayer, VersusPlayer];
+    // 勝者（引き分けなら 'draw'、まだ決まっていなければ null）
+    winner: PlayerIndex | 'draw' | null;
+    // 勝敗が決まった時刻（ゲーム内時刻、ms）
+    decidedTime: number;
+}
+
+// 演出用の乱数はプレイヤーごとに別の系列にする
+const EFFECTS_SEED_SALT = 1;
+
+/**
+ * 2人対戦を始める。公平になるように同じシード・調整値・機体で2つの GameState を作る。
+ */
+export const createVersus = (width: number, height: number, config: GameConfig, seed: number, loadout: Loadout): Versus => {
+    const createPlayer = (index: PlayerIndex): VersusPlayer => {
+        const state = createInitialState(width, height, config, seed, loadout);
+        return {
+            previous: state,
+            state,
+            effects: createEffects(),
+            random: createRandom(mixSeed(seed, EFFECTS_SEED_SALT + index)),
+            assist: createInputAssist()
+        };
+    };
+    return { players: [createPlayer(0), createPlayer(1)], winner: null, decidedTime: 0 };
+};
+
+const isFinished = ({ state }: VersusPlayer) => state.isExploded || state.isFailed;
+
+/**
+ * 勝敗を決める。先に軌道投入に成功したほうが勝ち（同じステップなら引き分け）。
+ * どちらも失敗したら到達高度の高いほうが勝ち。片方だけ失敗したら、もう片方が終わるまで待つ。
+ */
+export const decideWinner = ([first, second]: [VersusPlayer, VersusPlayer]): PlayerIndex | 'draw' | null => {
+    if (first.state.isExploded && second.state.isExploded) return 'draw';
+    if (first.state.isExploded) return 0;
+    if (second.state.isExploded) return 1;
+    if (!isFinished(first) || !isFinished(second)) return null;
+    if (first.state.altitude === second.state.altitude) return 'draw';
+    return first.state.altitude > second.state.altitude ? 0 : 1;
+};
+
+/**
+ * 両プレイヤーを1ステップ進め、起きた出来事をまとめて返す。
+ * 補助入力の方式ならプレイヤーごとに連打に直す（方式はこの端末の設定で、2人とも同じ）。
+ * 勝敗が決まったあとも余韻の演出のために時間は進める。
+ */
+export const stepVersus = (versus: Versus, input: VersusInput, inputMode: InputMode, dtMs: number): GameEvent[] => {
+    const events: GameEvent[] = [];
+
+    versus.players.forEach((player, index) => {
+        const mashes = assistMashes(
+            player.assist,
+            inputMode,
+            player.state,
+            { mashes: input.playerMashes[index], holding: input.playerHolding[index] },
+            dtMs
+        );
+        player.previous = player.state;
+        player.state = step(player.state, { mashes: versus.winner === null ? mashes : 0 }, dtMs);
+        events.push(...detectEvents(player.previous, player.state));
+        updateEffects(player.effects, player.state, dtMs, player.random);
+    });
+
+    if (versus.winner === null) {
+        versus.winner = decideWinner(versus.players);
+        if (versus.winner !== null) {
+            versus.decidedTime = versus.players[0].state.time;
+        }
+    }
+    return events;
+};
@@ -0,0 +1,245 @@
+// 英語のメッセージ。ほかの言語のカタログはこの形（Messages）に合わせる
+export const en = {
+    appTitle: 'Renda Blast Game',
+    // 言語を切り替えるキーの案内には切り替え先の言語名を出す
+    languageName: 'ENGLISH',
+    common: {
+        escTitle: 'ESC: TITLE',
+        escLeave: 'ESC: LEAVE',
+        changeHelp: 'UP/DOWN: SELECT  LEFT/RIGHT: CHANGE  ESC: BACK',
+        on: 'ON',
+        off: 'OFF'
+    },
+    presets: {
+        easy: 'EASY',
+        normal: 'NORMAL',
+        hard: 'HARD',
+        custom: 'CUSTOM'
+    },
+    inputModes: {
+        mash: 'MASH',
+        hold: 'HOLD',
+        rhythm: 'RHYTHM'
+    },
+    sites: {
+        coast: 'COAST',
+        desert: 'DESERT',
+        tundra: 'TUNDRA'
+    },
+    layers: {
+        TROPOSPHERE: 'TROPOSPHERE',
+        STRATOSPHERE: 'STRATOSPHERE',
+        MESOSPHERE: 'MESOSPHERE',
+        THERMOSPHERE: 'THERMOSPHERE',
+        EXOSPHERE: 'EXOSPHERE'
+    },
+    // 飛行の結末（対戦の結果と幽霊の表示）
+    outcomes: {
+        orbit: 'ORBIT!',
+        flying: 'FLYING',
+        failed: 'FAILED',
+        left: 'LEFT'
+    },
+    hud: {
+        mute: 'MUTE',
+        volume: (percent: number) => `VOL ${percent}%`,
+        help: 'M: MUTE  -/+: VOL'
+    },
+    title: {
+        name: 'RENDA ROCKET',
+        tagline: 'MASH TO LAUNCH INTO SPACE',
+        start: 'PRESS SPACE OR TAP TO START',
+        highScores: 'ENTER: HIGH SCORES',
+        settings: (preset: string) => `S: SETTINGS (${preset})`,
+        replay: 'DROP A FILE: WATCH REPLAY',
+        versus: 'V: 2P VERSUS (A / L)  O: ONLINE',
+        options: (otherLanguage: string) => `C: ACCESSIBILITY  J: ${otherLanguage}`
+    },
+    select: {
+        title: 'CHOOSE YOUR ROCKET',
+        rocket: (name: string) => `ROCKET  < ${name} >`,
+        site: (name: string) => `SITE  < ${name} >`,
+        stats: (fuel: number, thrust: string) => `FUEL ${fuel}  THRUST ${thrust}`,
+        handling: (shake: string, mass: number, drag: string) => `SHAKE ${shake}  MASS ${mass}t  DRAG ${drag}`,
+        paint: (name: string) => `PAINT  < ${name} >`,
+        achievements: (count: number, total: number) => `ACHIEVEMENTS ${count}/${total}`,
+        launch: 'SPACE: LAUNCH'
+    },
+    power: {
+        fullyCharged: 'FULLY CHARGED!',
+        prepareToLaunch: 'PREPARE TO LAUNCH',
+        fuel: (percent: number) => `FUEL: ${percent}%`,
+        mash: 'MASH SPACE!',
+        warning: 'WARNING!'
+    },
+    launch: {
+        launch: 'LAUNCH!',
+        height: (altitude: string) => `HEIGHT: ${altitude}`,
+        keepMashing: 'KEEP MASHING!',
+        timeLeft: (seconds: string) => `TIME: ${seconds}`,
+        maxPower: 'MAX POWER!',
+        failed: 'LAUNCH FAILED',
+        success: 'LAUNCH SUCCESS!'
+    },
+    atmosphere: {
+        prepareFor: 'PREPARE FOR',
+        atmosphereBreak: 'ATMOSPHERE BREAK!',
+        status: (altitude: string, speed: number) => `ALTITUDE: ${altitude}  SPEED: ${speed}m/s`
+    },
+    orbit: {
+        title: 'ORBITAL INSERTION',
+        stages: {
+            stageSeparation: 'STAGE SEPARATION',
+            fairingJettison: 'FAIRING JETTISON',
+            orbitalBurn: 'ORBITAL BURN'
+        },
+        pressOnBeat: 'PRESS ON THE BEAT!',
+        miss: 'MISS',
+        perfect: 'PERFECT!',
+        great: (isEarly: boolean) => `GREAT ${isEarly ? 'EARLY' : 'LATE'}`,
+        good: (isEarly: boolean) => `GOOD ${isEarly ? 'EARLY' : 'LATE'}`,
+        achieved: 'ORBIT ACHIEVED!',
+        failed: 'ORBIT FAILED'
+    },
+    play: {
+        replay: 'REPLAY  ESC: STOP'
+    },
+    pause: {
+        title: 'PAUSED',
+        items: {
+            resume: 'RESUME',
+            retry: 'RETRY',
+            quit: 'QUIT TO TITLE'
+        },
+        help: 'UP/DOWN: SELECT  ENTER: OK  P/ESC: RESUME'
+    },
+    result: {
+        complete: 'MISSION COMPLETE!',
+        failed: 'MISSION FAILED',
+        replay: 'REPLAY',
+        // 内訳の行の見出し（6文字に揃えて並べる）
+        scenes: {
+            power: 'POWER',
+            launch: 'LAUNCH',
+            atmosphere: 'ATMOS',
+            orbit: 'ORBIT'
+        },
+        taps: (presses: number) => `${presses} TAPS`,
+        peak: (tps: number) => `PEAK ${tps}/s`,
+        accuracy: (percent: string) => `ACCURACY ${percent}`,
+        newBest: 'NEW BEST!',
+        score: (total: number) => `SCORE: ${total}`,
+        newPersonalBest: 'NEW PERSONAL BEST!',
+        rank: (rank: string) => `RANK ${rank}`,
+        assist: (mode: string) => `ASSIST: ${mode}`,
+        unranked: (reasons: string) => `UNRANKED: ${reasons}`,
+        unrankedReasons: {
+            turbo: 'TURBO DETECTED',
+            superhuman: 'INHUMAN SPEED',
+            debug: 'DEV TOOLS USED',
+            custom: 'CUSTOM DIFFICULTY'
+        },
+        enterName: 'SPACE: ENTER NAME',
+        retry: 'SPACE: RETRY',
+        saveReplay: 'R: SAVE REPLAY',
+        capture: 'I: SAVE PICTURE  K: SAVE CLIP',
+        // 保存する画像の下の帯
+        shareScore: (total: number, rank: string) => `SCORE ${total}  RANK ${rank}`
+    },
+    nameEntry: {
+        title: 'NEW HIGH SCORE!',
+        prompt: 'ENTER YOUR INITIALS',
+        help: 'UP/DOWN: LETTER  LEFT/RIGHT: MOVE',
+        confirm: 'ENTER/TAP: OK  ESC: SKIP'
+    },
+    leaderboard: {
+        title: 'HIGH SCORES',
+        empty: 'NO RECORDS YET',
+        help: 'LEFT/RIGHT: INPUT MODE  SPACE: PLAY  ESC: TITLE'
+    },
+    versus: {
+        player: (number: number) => `${number}P`,
+        mashKey: (key: string) => `MASH ${key}`,
+        win: 'WIN!',
+        lose: 'LOSE',
+        draw: 'DRAW',
+        drawTitle: 'DRAW!',
+        wins: (number: number) => `PLAYER ${number} WINS!`,
+        time: (seconds: string) => `TIME ${seconds}s`,
+        altitude: (altitude: string) => `ALT ${altitude}`,
+        rule: 'FIRST TO ORBIT WINS, ELSE HIGHEST ALTITUDE',
+        rematch: 'SPACE / A / L: REMATCH'
+    },
+    online: {
+        title: 'ONLINE VERSUS',
+        connecting: 'CONNECTING...',
+        roomFull: 'ROOM IS FULL',
+        lost: 'CONNECTION LOST',
+        tryAgain: 'SPACE: TRY AGAIN',
+        you: (id: string, rtt: number) => `P${id} (YOU)  ${rtt}ms`,
+        peer: (id: number, isReady: boolean, rtt: number) => `P${id}  ${isReady ? 'READY ' : 'RACING'}  ${rtt}ms`,
+        waitingForHost: 'WAITING FOR HOST...',
+        start: 'SPACE: START RACE',
+        waitingForOpponents: 'WAITING FOR OPPONENTS...',
+        syncing: 'SYNCING...',
+        forfeit: 'ESC: FORFEIT',
+        noContest: 'NO CONTEST',
+        waitingForOthers: 'WAITING FOR OTHERS...',
+        youWin: 'YOU WIN!',
+        placed: (rank: number, total: number) => `YOU PLACED ${rank}/${total}`,
+        lostDuringRace: 'CONNECTION LOST DURING THE RACE',
+        backToRoom: 'SPACE: BACK TO ROOM'
+    },
+    settings: {
+        title: 'SETTINGS',
+        difficulty: (preset: string) => `DIFFICULTY  < ${preset} >`,
+        fields: {
+            powerPerMash: 'FUEL / TAP',
+            shakePerMash: 'THRUST / TAP',
+            maxShake: 'MAX THRUST',
+            shakeDecayPerSecond: 'THRUST DECAY/S',
+            thrustPerTps: 'KN PER TAP/S',
+            countdownMs: 'COUNTDOWN MS',
+            launchTimeLimitMs: 'TIME LIMIT MS',
+            orbitAltitudeKm: 'ORBIT KM',
+            orbitBeatMs: 'ORBIT BEAT MS',
+            orbitWindowMs: 'ORBIT WINDOW MS',
+            orbitPassAccuracy: 'ORBIT ACCURACY'
+        },
+        customNote: 'CHANGING A VALUE SWITCHES TO CUSTOM (UNRANKED)'
+    },
+    accessibility: {
+        title: 'ACCESSIBILITY',
+        rows: {
+            inputMode: 'INPUT MODE',
+            reducedMotion: 'REDUCED MOTION',
+            reducedFlash: 'REDUCED FLASH',
+            shakeStrength: 'SCREEN SHAKE'
+        },
+        notes: {
+            mash: 'TAP AS FAST AS YOU CAN',
+            hold: 'HOLD THE BUTTON TO KEEP MASHING',
+            rhythm: 'TAP TWICE A SECOND TO KEEP MASHING'
+        },
+        assistNote: 'HOLD AND RHYTHM ALSO WORK IN VERSUS AND ONLINE AND HAVE THEIR OWN HIGH SCORES'
+    },
+    achievements: {
+        unlocked: 'ACHIEVEMENT UNLOCKED!',
+        names: {
+            quickCharge: 'QUICK CHARGE',
+            steadyThrust: 'STEADY HANDS',
+            exosphere: 'EDGE OF SPACE',
+            veteran: 'VETERAN'
+        },
+        newPaint: (name: string) => `NEW PAINT: ${name}`,
+        paints: {
+            stock: 'STOCK',
+            ember: 'EMBER',
+            chrome: 'CHROME',
+            aurora: 'AURORA',
+            gold: 'GOLD'
+        }
+    }
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,241 @@
+import type { Messages } from './en';
+
+// 日本語のメッセージ。キーの名前（SPACE など）は英語のまま出す
+export const ja: Messages = {
+    appTitle: '連打爆発ゲーム',
+    languageName: '日本語',
+    common: {
+        escTitle: 'ESC: タイトルへ',
+        escLeave: 'ESC: 退出',
+        changeHelp: '上下: 選択  左右: 変更  ESC: 戻る',
+        on: 'オン',
+        off: 'オフ'
+    },
+    presets: {
+        easy: 'かんたん',
+        normal: 'ふつう',
+        hard: 'むずかしい',
+        custom: 'カスタム'
+    },
+    inputModes: {
+        mash: '連打',
+        hold: '長押し',
+        rhythm: 'リズム'
+    },
+    sites: {
+        coast: '海岸',
+        desert: '砂漠',
+        tundra: 'ツンドラ'
+    },
+    layers: {
+        TROPOSPHERE: '対流圏',
+        STRATOSPHERE: '成層圏',
+        MESOSPHERE: '中間圏',
+        THERMOSPHERE: '熱圏',
+        EXOSPHERE: '外気圏'
+    },
+    outcomes: {
+        orbit: '軌道到達!',
+        flying: '飛行中',
+        failed: '失敗',
+        left: '退出'
+    },
+    hud: {
+        mute: 'ミュート',
+        volume: (percent) => `音量 ${percent}%`,
+        help: 'M: ミュート  -/+: 音量'
+    },
+    title: {
+        name: '連打ロケット',
+        tagline: '連打で宇宙へ打ち上げろ',
+        start: 'SPACE かタップでスタート',
+        highScores: 'ENTER: ハイスコア',
+        settings: (preset) => `S: 設定 (${preset})`,
+        replay: 'ファイルをドロップ: リプレイ再生',
+        versus: 'V: 2人対戦 (A / L)  O: オンライン',
+        options: (otherLanguage) => `C: アクセシビリティ  J: ${otherLanguage}`
+    },
+    select: {
+        title: 'ロケットを選べ',
+        rocket: (name) => `ロケット  < ${name} >`,
+        site: (name) => `発射場  < ${name} >`,
+        stats: (fuel, thrust) => `燃料 ${fuel}  推力 ${thrust}`,
+        handling: (shake, mass, drag) => `揺れ ${shake}  重さ ${mass}t  抵抗 ${drag}`,
+        paint: (name) => `塗装  < ${name} >`,
+        achievements: (count, total) => `実績 ${count}/${total}`,
+        launch: 'SPACE: 発射'
+    },
+    power: {
+        fullyCharged: '燃料満タン!',
+        prepareToLaunch: '発射準備',
+        fuel: (percent) => `燃料: ${percent}%`,
+        mash: 'SPACE を連打!',
+        warning: '警告!'
+    },
+    launch: {
+        launch: '発射!',
+        height: (altitude) => `高度: ${altitude}`,
+        keepMashing: '連打を続けろ!',
+        timeLeft: (seconds) => `残り: ${seconds}`,
+        maxPower: '最大出力!',
+        failed: '打ち上げ失敗',
+        success: '打ち上げ成功!'
+    },
+    atmosphere: {
+        prepareFor: 'まもなく',
+        atmosphereBreak: '大気圏突破!',
+        status: (altitude, speed) => `高度: ${altitude}  速度: ${speed}m/s`
+    },
+    orbit: {
+        title: '軌道投入',
+        stages: {
+            stageSeparation: '段分離',
+            fairingJettison: 'フェアリング分離',
+            orbitalBurn: '軌道投入噴射'
+        },
+        pressOnBeat: '拍に合わせて押せ!',
+        miss: 'ミス',
+        perfect: 'パーフェクト!',
+        great: (isEarly) => `グレート ${isEarly ? '早い' : '遅い'}`,
+        good: (isEarly) => `グッド ${isEarly ? '早い' : '遅い'}`,
+        achieved: '軌道投入成功!',
+        failed: '軌道投入失敗'
+    },
+    play: {
+        replay: 'リプレイ  ESC: 停止'
+    },
+    pause: {
+        title: '一時停止',
+        items: {
+            resume: '再開',
+            retry: 'やり直す',
+            quit: 'タイトルへ'
+        },
+        help: '上下: 選択  ENTER: 決定  P/ESC: 再開'
+    },
+    result: {
+        complete: 'ミッション達成!',
+        failed: 'ミッション失敗',
+        replay: 'リプレイ',
+        scenes: {
+            power: '充填',
+            launch: '発射',
+            atmosphere: '大気圏',
+            orbit: '軌道'
+        },
+        taps: (presses) => `${presses}回`,
+        peak: (tps) => `最高 ${tps}/s`,
+        accuracy: (percent) => `正確さ ${percent}`,
+        newBest: '自己ベスト!',
+        score: (total) => `スコア: ${total}`,
+        newPersonalBest: '自己ベスト更新!',
+        rank: (rank) => `ランク ${rank}`,
+        assist: (mode) => `補助: ${mode}`,
+        unranked: (reasons) => `ランキング対象外: ${reasons}`,
+        unrankedReasons: {
+            turbo: '連射機能を検出',
+            superhuman: '人間離れした速さ',
+            debug: '開発ツールを使用',
+            custom: 'カスタムの難易度'
+        },
+        enterName: 'SPACE: 名前を入力',
+        retry: 'SPACE: もう一度',
+        saveReplay: 'R: リプレイを保存',
+        capture: 'I: 画像を保存  K: 動画を保存',
+        shareScore: (total, rank) => `スコア ${total}  ランク ${rank}`
+    },
+    nameEntry: {
+        title: 'ハイスコア!',
+        prompt: 'イニシャルを入力',
+        help: '上下: 文字  左右: 移動',
+        confirm: 'ENTER/タップ: 決定  ESC: スキップ'
+    },
+    leaderboard: {
+        title: 'ハイスコア',
+        empty: 'まだ記録がありません',
+        help: '左右: 入力方式  SPACE: プレイ  ESC: タイトルへ'
+    },
+    versus: {
+        player: (number) => `${number}P`,
+        mashKey: (key) => `${key} を連打`,
+        win: '勝ち!',
+        lose: '負け',
+        draw: '引き分け',
+        drawTitle: '引き分け!',
+        wins: (number) => `${number}P の勝ち!`,
+        time: (seconds) => `時間 ${seconds}s`,
+        altitude: (altitude) => `高度 ${altitude}`,
+        rule: '先に軌道に届いた方の勝ち。届かなければ高度で勝負',
+        rematch: 'SPACE / A / L: 再戦'
+    },
+    online: {
+        title: 'オンライン対戦',
+        connecting: '接続中...',
+        roomFull: '部屋が満員です',
+        lost: '接続が切れました',
+        tryAgain: 'SPACE: 再接続',
+        you: (id, rtt) => `P${id} (あなた)  ${rtt}ms`,
+        peer: (id, isReady, rtt) => `P${id}  ${isReady ? '待機中' : 'レース中'}  ${rtt}ms`,
+        waitingForHost: 'ホストを待っています...',
+        start: 'SPACE: レース開始',
+        waitingForOpponents: '相手を待っています...',
+        syncing: '同期中...',
+        forfeit: 'ESC: 棄権',
+        noContest: '無効試合',
+        waitingForOthers: 'ほかの人を待っています...',
+        youWin: 'あなたの勝ち!',
+        placed: (rank, total) => `${total}人中 ${rank}位`,
+        lostDuringRace: 'レース中に接続が切れました',
+        backToRoom: 'SPACE: 部屋に戻る'
+    },
+    settings: {
+        title: '設定',
+        difficulty: (preset) => `難易度  < ${preset} >`,
+        fields: {
+            powerPerMash: '1回の燃料',
+            shakePerMash: '1回の推力',
+            maxShake: '最大推力',
+            shakeDecayPerSecond: '推力の減衰/S',
+            thrustPerTps: '連打1回/Sの推力',
+            countdownMs: 'カウント MS',
+            launchTimeLimitMs: '制限時間 MS',
+            orbitAltitudeKm: '軌道の高度 KM',
+            orbitBeatMs: '拍の間隔 MS',
+            orbitWindowMs: '判定の幅 MS',
+            orbitPassAccuracy: '必要な正確さ'
+        },
+        customNote: '値を変えるとカスタム（ランキング対象外）になります'
+    },
+    accessibility: {
+        title: 'アクセシビリティ',
+        rows: {
+            inputMode: '入力方式',
+            reducedMotion: '動きを減らす',
+            reducedFlash: '明滅を抑える',
+            shakeStrength: '画面の揺れ'
+        },
+        notes: {
+            mash: 'できるだけ速く連打する',
+            hold: 'ボタンを押し続けると連打が続く',
+            rhythm: '1秒に2回押すと連打が続く'
+        },
+        assistNote: '長押しとリズムは対戦とオンラインでも使えて、ハイスコアは別に記録します'
+    },
+    achievements: {
+        unlocked: '実績解除!',
+        names: {
+            quickCharge: '急速充填',
+            steadyThrust: '揺るがぬ手',
+            exosphere: '宇宙の入口',
+            veteran: 'ベテラン'
+        },
+        newPaint: (name) => `新しい塗装: ${name}`,
+        paints: {
+            stock: '標準',
+            ember: '残り火',
+            chrome: 'クローム',
+            aurora: 'オーロラ',
+            gold: 'ゴールド'
+        }
+    }
+};
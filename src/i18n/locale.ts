@@ -0,0 +1,64 @@
+import { en, type Messages } from './en';
+import { ja } from './ja';
+
+export type Locale = 'en' | 'ja';
+
+export const LOCALES: readonly Locale[] = ['en', 'ja'];
+
+const CATALOGS: Record<Locale, Messages> = { en, ja };
+
+// 描画のたびに renderSession から受け取る（キャンバスの外の React からも読む）
+let current: Locale = 'en';
+const listeners = new Set<() => void>();
+
+export const currentLocale = () => current;
+
+export const setLocale = (locale: Locale) => {
+    if (locale === current) return;
+    current = locale;
+    listeners.forEach(listener => listener());
+};
+
+// 言語が切り替わったら呼ぶ。戻り値で登録を外す（React の useSyncExternalStore に渡せる形）
+export const subscribeLocale = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const messagesFor = (locale: Locale): Messages => CATALOGS[locale];
+
+// 今の言語のメッセージ
+export const messages = () => messagesFor(current);
+
+// 次の言語（タイトル画面の切り替え用）
+export const nextLocale = (locale: Locale) => LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length];
+
+/**
+ * ブラウザの言語設定（navigator.languages、優先順）から使う言語を決める。
+ * ja-JP のような地域付きのタグは言語の部分だけを見て、対応していなければ英語にする。
+ */
+export const detectLocale = (languages: readonly string[]): Locale => {
+    for (const language of languages) {
+        const base = language.toLowerCase().split('-')[0] as Locale;
+        if (LOCALES.includes(base)) return base;
+    }
+    return 'en';
+};
+
+// 永続化の窓口（ブラウザでは localStorage、テストなどではメモリ）
+export interface LocaleStore {
+    load: () => Locale;
+    save: (locale: Locale) => void;
+}
+
+export const createMemoryLocaleStore = (initial: Locale = 'en'): LocaleStore => {
+    let saved = initial;
+    return {
+        load: () => saved,
+        save: (locale) => {
+            saved = locale;
+        }
+    };
+};
@@ -0,0 +1,72 @@
+import type { Command, NavKey } from '../game/lifecycle';
+
+// mash1 / mash2 は対戦での1P・2Pの連打
+export type Action = 'mash' | 'mash1' | 'mash2' | 'confirm' | 'cancel' | 'pause' | NavKey | Command;
+
+// 操作ごとの KeyboardEvent.code の一覧
+export type KeyBindings = Record<Action, string[]>;
+
+// 操作ごとの Gamepad のボタン番号（Standard Gamepad のレイアウト）
+export type GamepadBindings = Record<Action, number[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    mash: ['Space'],
+    mash1: ['KeyA'],
+    mash2: ['KeyL'],
+    confirm: ['Enter'],
+    cancel: ['Escape'],
+    pause: ['KeyP'],
+    up: ['ArrowUp'],
+    down: ['ArrowDown'],
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    erase: ['Backspace'],
+    toggleMute: ['KeyM'],
+    volumeDown: ['Minus'],
+    volumeUp: ['Equal'],
+    openSettings: ['KeyS'],
+    openAccessibility: ['KeyC'],
+    switchLocale: ['KeyJ'],
+    saveReplay: ['KeyR'],
+    saveScreenshot: ['KeyI'],
+    saveClip: ['KeyK'],
+    openVersus: ['KeyV'],
+    openOnline: ['KeyO'],
+    toggleFrameBudget: ['F2'],
+    toggleLayerCache: ['F4']
+};
+
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+    // A / B / X / Y どれでも連打できる
+    mash: [0, 1, 2, 3],
+    // 対戦では何台目のゲームパッドかで1P・2Pを分ける（inputManager を参照）
+    mash1: [],
+    mash2: [],
+    confirm: [9],
+    cancel: [8],
+    pause: [],
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    erase: [],
+    toggleMute: [],
+    volumeDown: [],
+    volumeUp: [],
+    openSettings: [4],
+    openAccessibility: [],
+    switchLocale: [],
+    saveReplay: [],
+    saveScreenshot: [],
+    saveClip: [],
+    openVersus: [5],
+    openOnline: [],
+    toggleFrameBudget: [],
+    toggleLayerCache: []
+};
+
+// code に割り当てられた操作を探す
+export const findAction = <T>(bindings: Record<Action, T[]>, input: T): Action | null => {
+    const entry = (Object.entries(bindings) as [Action, T[]][]).find(([, inputs]) => inputs.includes(input));
+    return entry ? entry[0] : null;
+};
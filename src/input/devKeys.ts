@@ -0,0 +1,59 @@
+import { LAYER_ALTITUDES, type DevCommand } from '../game/devCommands';
+import { MAX_POWER } from '../game/simulation';
+
+// デバッグ表示の切り替え（一時停止中も効くようにゲームの入力とは別に受け付ける）
+const TOGGLE_OVERLAY_KEY = 'F3';
+
+// デバッグ表示中だけ効くキー（KeyboardEvent.code）
+export const DEV_KEY_BINDINGS: Record<string, DevCommand> = {
+    Digit1: { type: 'jumpToScene', scene: 'power' },
+    Digit2: { type: 'jumpToScene', scene: 'launch' },
+    Digit3: { type: 'jumpToScene', scene: 'atmosphere' },
+    Digit4: { type: 'jumpToScene', scene: 'orbit' },
+    ...Object.fromEntries(LAYER_ALTITUDES.map((altitude, i) => [
+        `Digit${i + 5}`,
+        { type: 'setAltitude', altitude } satisfies DevCommand
+    ])),
+    KeyF: { type: 'setPower', power: MAX_POWER },
+    KeyE: { type: 'setPower', power: 0 },
+    BracketLeft: { type: 'changeTimeScale', direction: -1 },
+    BracketRight: { type: 'changeTimeScale', direction: 1 },
+    Digit0: { type: 'setTimeScale', scale: 1 },
+    Backslash: { type: 'togglePause' },
+    Period: { type: 'stepFrame' }
+};
+
+export interface DevKeys {
+    attach: () => void;
+    detach: () => void;
+    isOverlayVisible: () => boolean;
+}
+
+/**
+ * 開発用のキー操作。F3 でデバッグ表示を切り替え、表示中は DEV_KEY_BINDINGS のキーでコマンドを送る。
+ * isEnabled が false のとき（名前入力中など）は F3 以外を無視する。
+ */
+export const createDevKeys = (onCommand: (command: DevCommand) => void, isEnabled: () => boolean): DevKeys => {
+    let overlayVisible = false;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.code === TOGGLE_OVERLAY_KEY) {
+            e.preventDefault();
+            overlayVisible = !overlayVisible;
+            return;
+        }
+        if (!overlayVisible || !isEnabled()) return;
+
+        const command = DEV_KEY_BINDINGS[e.code];
+        if (command) {
+            e.preventDefault();
+            onCommand(command);
+        }
+    };
+
+    return {
+        attach: () => window.addEventListener('keydown', handleKeyDown),
+        detach: () => window.removeEventListener('keydown', handleKeyDown),
+        isOverlayVisible: () => overlayVisible
+    };
+};
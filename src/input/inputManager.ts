@@ -0,0 +1,226 @@
+import { createFrameInput, type FrameInput } from '../game/lifecycle';
+import {
+    DEFAULT_GAMEPAD_BINDINGS,
+    DEFAULT_KEY_BINDINGS,
+    findAction,
+    type Action,
+    type GamepadBindings,
+    type KeyBindings
+} from './bindings';
+
+export type InputDevice = 'keyboard' | 'pointer' | 'gamepad';
+
+// 同じ入力元からの押下をこの間隔より短いときは1回とみなす（チャタリング対策）
+const DEBOUNCE_MS: Record<InputDevice, number> = {
+    keyboard: 15,
+    pointer: 40,
+    gamepad: 30
+};
+
+// タッチの直後にブラウザが合成するマウス入力を無視する時間
+const SYNTHETIC_MOUSE_MS = 500;
+
+export interface InputManagerOptions {
+    keyBindings?: KeyBindings;
+    gamepadBindings?: GamepadBindings;
+    // タップした位置の操作（画面上のボタンなど）。省略するとすべて連打
+    pointerAction?: (e: PointerEvent) => Action;
+}
+
+export interface InputManager {
+    attach: () => void;
+    detach: () => void;
+    // 前回の poll 以降に溜まった入力を取り出す
+    poll: () => FrameInput;
+    // 名前入力などで英数字キーを文字として受け取るか
+    setTextMode: (enabled: boolean) => void;
+}
+
+/**
+ * キーボード・ポインタ（タッチ/マウス/ペン）・ゲームパッドの入力を
+ * FrameInput にまとめる。pointerTarget 上のタップは pointerAction で決まる操作（既定は連打）として扱う。
+ */
+export const createInputManager = (
+    pointerTarget: HTMLElement,
+    {
+        keyBindings = DEFAULT_KEY_BINDINGS,
+        gamepadBindings = DEFAULT_GAMEPAD_BINDINGS,
+        pointerAction = () => 'mash'
+    }: InputManagerOptions = {}
+): InputManager => {
+    let pending = createFrameInput();
+    // 入力元ごとの最後に受け付けた時刻
+    const lastAccepted = new Map<string, number>();
+    let lastTouchTime = -Infinity;
+    let textMode = false;
+    // ゲームパッドのボタンの前回の押下状態（押した瞬間だけを拾う）
+    const gamepadPressed = new Map<string, boolean>();
+    // 押されたまま離されていないキーとポインタ。離すまで次の押下は数えない
+    const heldKeys = new Set<string>();
+    const heldPointers = new Set<number>();
+    // 押されたままのポインタのうち連打として押されたものと、その連打の種類（長押しの入力方式用）
+    const mashPointers = new Map<number, Action>();
+    // 押されているゲームパッドの連打のボタン（1台目・2台目は対戦の1P・2Pの連打にもなる）
+    const gamepadMashesHeld = new Set<Action>();
+
+    const accept = (device: InputDevice, source: string, time: number) => {
+        const key = `${device}:${source}`;
+        const last = lastAccepted.get(key) ?? -Infinity;
+        if (time - last < DEBOUNCE_MS[device]) return false;
+        lastAccepted.set(key, time);
+        return true;
+    };
+
+    const dispatch = (action: Action, time: number) => {
+        switch (action) {
+            case 'mash':
+                pending.mashes++;
+                pending.mashTimes.push(time);
+                break;
+            case 'mash1':
+            case 'mash2':
+                pending.playerMashes[action === 'mash1' ? 0 : 1]++;
+                break;
+            case 'confirm':
+                pending.confirm = true;
+                break;
+            case 'cancel':
+                pending.cancel = true;
+                break;
+            case 'pause':
+                pending.pause = true;
+                break;
+            case 'toggleMute':
+            case 'volumeUp':
+            case 'volumeDown':
+            case 'openSettings':
+            case 'openAccessibility':
+            case 'switchLocale':
+            case 'saveReplay':
+            case 'saveScreenshot':
+            case 'saveClip':
+            case 'openVersus':
+            case 'openOnline':
+            case 'toggleFrameBudget':
+            case 'toggleLayerCache':
+                pending.commands.push(action);
+                break;
+            default:
+                pending.nav.push(action);
+        }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        // 文字入力中は英数字キーに割り当てた操作より文字入力を優先する
+        if (textMode && /^[a-z0-9]$/i.test(e.key)) {
+            pending.text += e.key.toUpperCase();
+            return;
+        }
+
+        const action = findAction(keyBindings, e.code);
+        if (action) {
+            e.preventDefault();
+            // キーを押しっぱなしにしたときの自動リピートは数えない
+            if (e.repeat || heldKeys.has(e.code)) return;
+            heldKeys.add(e.code);
+            if (!accept('keyboard', e.code, e.timeStamp)) return;
+            dispatch(action, e.timeStamp);
+        }
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+        // タッチ後の合成マウスイベントやスクロール・ズームを抑える
+        e.preventDefault();
+        if (e.pointerType === 'touch') {
+            lastTouchTime = e.timeStamp;
+        } else if (e.pointerType === 'mouse' && e.timeStamp - lastTouchTime < SYNTHETIC_MOUSE_MS) {
+            return;
+        }
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        if (heldPointers.has(e.pointerId)) return;
+        heldPointers.add(e.pointerId);
+        const action = pointerAction(e);
+        if (action === 'mash' || action === 'mash1' || action === 'mash2') mashPointers.set(e.pointerId, action);
+        if (!accept('pointer', `${e.pointerType}:${e.pointerId}`, e.timeStamp)) return;
+        dispatch(action, e.timeStamp);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+        heldKeys.delete(e.code);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+        heldPointers.delete(e.pointerId);
+        mashPointers.delete(e.pointerId);
+    };
+
+    // フォーカスが外れると keyup が届かないので押下状態を忘れる
+    const handleBlur = () => {
+        heldKeys.clear();
+        heldPointers.clear();
+        mashPointers.clear();
+    };
+
+    const pollGamepads = () => {
+        gamepadMashesHeld.clear();
+        if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+        const now = performance.now();
+
+        for (const gamepad of navigator.getGamepads()) {
+            if (!gamepad) continue;
+
+            gamepad.buttons.forEach((button, index) => {
+                const source = `${gamepad.index}:${index}`;
+                const wasPressed = gamepadPressed.get(source) ?? false;
+                gamepadPressed.set(source, button.pressed);
+                const action = findAction(gamepadBindings, index);
+                if (button.pressed && action === 'mash') {
+                    gamepadMashesHeld.add('mash');
+                    if (gamepad.index < 2) gamepadMashesHeld.add(gamepad.index === 0 ? 'mash1' : 'mash2');
+                }
+                if (!button.pressed || wasPressed) return;
+
+                if (action && accept('gamepad', source, now)) {
+                    dispatch(action, now);
+                    // 1台目・2台目の連打は対戦の1P・2Pの連打にもなる
+                    if (action === 'mash' && gamepad.index < 2) {
+                        dispatch(gamepad.index === 0 ? 'mash1' : 'mash2', now);
+                    }
+                }
+            });
+        }
+    };
+
+    return {
+        attach: () => {
+            window.addEventListener('keydown', handleKeyDown);
+            window.addEventListener('keyup', handleKeyUp);
+            window.addEventListener('blur', handleBlur);
+            pointerTarget.addEventListener('pointerdown', handlePointerDown);
+            window.addEventListener('pointerup', handlePointerUp);
+            window.addEventListener('pointercancel', handlePointerUp);
+        },
+        detach: () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+            pointerTarget.removeEventListener('pointerdown', handlePointerDown);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
+        },
+        poll: () => {
+            pollGamepads();
+            const input = pending;
+            const isHeld = (action: Action) => gamepadMashesHeld.has(action) ||
+                [...mashPointers.values()].includes(action) ||
+                [...heldKeys].some(code => findAction(keyBindings, code) === action);
+            input.holding = isHeld('mash');
+            input.playerHolding = [isHeld('mash1'), isHeld('mash2')];
+            pending = createFrameInput();
+            return input;
+        },
+        setTextMode: (enabled) => {
+            textMode = enabled;
+        }
+    };
+};
@@ -0,0 +1,137 @@
+import { validateConfig, type GameConfig } from '../game/config';
+import { ROCKET_IDS, type RocketId } from '../game/catalog';
+import type { GameScene } from '../game/types';
+
+// 中継サーバーとやりとりする形式を変えたら上げる（違う版どうしは同じ部屋で遊べない）
+export const PROTOCOL_VERSION = 1;
+
+// 相手の画面に幽霊として描くのに必要な GameState の一部
+export interface GhostSnapshot {
+    // 送った側のプレイ開始からの経過時間（ms）
+    time: number;
+    rocket: RocketId;
+    scene: GameScene;
+    power: number;
+    altitude: number;
+    velocity: number;
+    isExploded: boolean;
+    isFailed: boolean;
+    endTime: number;
+}
+
+// クライアントが部屋の全員に送るもの（中継サーバーが from を付けて配る）
+export type PeerMessage =
+    // 部屋にいることの知らせ。入ったときと待機中に定期的に送る
+    | { type: 'hello'; version: number; rtt: number }
+    // 部屋の主がレースを始める。全員がこのシードと調整値でプレイする
+    | { type: 'start'; seed: number; config: GameConfig; players: number[] }
+    // 連打の知らせ（time は送った側のゲーム内時刻）
+    | { type: 'mash'; time: number; count: number }
+    | { type: 'snapshot'; snapshot: GhostSnapshot; rtt: number };
+
+// 中継サーバーが送ってくるもの
+export type RelayMessage =
+    // 接続できた。自分の番号と、すでに部屋にいる人の番号
+    | { type: 'welcome'; id: number; peers: number[] }
+    | { type: 'peerJoined'; id: number }
+    | { type: 'peerLeft'; id: number }
+    // 部屋が満員で入れなかった（このあと切断される）
+    | { type: 'roomFull' }
+    // ping への返事（sent は ping に付けた送信時刻）
+    | { type: 'pong'; sent: number }
+    | { type: 'peer'; from: number; message: PeerMessage };
+
+// クライアントが中継サーバーに送るもの
+export type ClientMessage =
+    | { type: 'ping'; sent: number }
+    | { type: 'broadcast'; message: PeerMessage };
+
+export class ProtocolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProtocolError';
+    }
+}
+
+const GAME_SCENES: GameScene[] = ['power', 'launch', 'atmosphere', 'orbit'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPeerId = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const asRecord = (raw: unknown, what: string) => {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new ProtocolError(`${what} is not an object`);
+    }
+    return raw as Record<string, unknown>;
+};
+
+const parseSnapshot = (raw: unknown): GhostSnapshot => {
+    const data = asRecord(raw, 'Snapshot');
+    if (![data.time, data.power, data.altitude, data.velocity, data.endTime].every(isFiniteNumber)) {
+        throw new ProtocolError('Snapshot numbers are invalid');
+    }
+    if (!ROCKET_IDS.includes(data.rocket as RocketId) || !GAME_SCENES.includes(data.scene as GameScene)) {
+        throw new ProtocolError('Snapshot rocket or scene is invalid');
+    }
+    if (typeof data.isExploded !== 'boolean' || typeof data.isFailed !== 'boolean') {
+        throw new ProtocolError('Snapshot flags are invalid');
+    }
+    return {
+        time: data.time as number,
+        rocket: data.rocket as RocketId,
+        scene: data.scene as GameScene,
+        power: data.power as number,
+        altitude: data.altitude as number,
+        velocity: data.velocity as number,
+        isExploded: data.isExploded,
+        isFailed: data.isFailed,
+        endTime: data.endTime as number
+    };
+};
+
+const parsePeerMessage = (raw: unknown): PeerMessage => {
+    const data = asRecord(raw, 'Peer message');
+    switch (data.type) {
+        case 'hello':
+            if (!isFiniteNumber(data.version) || !isFiniteNumber(data.rtt)) break;
+            return { type: 'hello', version: data.version, rtt: data.rtt };
+        case 'start':
+            if (!isPeerId(data.seed) || !Array.isArray(data.players) || !data.players.every(isPeerId)) break;
+            return { type: 'start', seed: data.seed, config: validateConfig(data.config), players: data.players };
+        case 'mash':
+            if (!isFiniteNumber(data.time) || !isPeerId(data.count)) break;
+            return { type: 'mash', time: data.time, count: data.count };
+        case 'snapshot':
+            if (!isFiniteNumber(data.rtt)) break;
+            return { type: 'snapshot', snapshot: parseSnapshot(data.snapshot), rtt: data.rtt };
+    }
+    throw new ProtocolError(`Unknown peer message: ${String(data.type)}`);
+};
+
+/**
+ * 中継サーバーから届いた JSON を検証する。知らない形なら ProtocolError を投げる
+ * （調整値が不正なら validateConfig の ConfigError）。
+ */
+export const parseRelayMessage = (raw: unknown): RelayMessage => {
+    const data = asRecord(raw, 'Relay message');
+    switch (data.type) {
+        case 'welcome':
+            if (!isPeerId(data.id) || !Array.isArray(data.peers) || !data.peers.every(isPeerId)) break;
+            return { type: 'welcome', id: data.id, peers: data.peers };
+        case 'peerJoined':
+        case 'peerLeft':
+            if (!isPeerId(data.id)) break;
+            return { type: data.type, id: data.id };
+        case 'roomFull':
+            return { type: 'roomFull' };
+        case 'pong':
+            if (!isFiniteNumber(data.sent)) break;
+            return { type: 'pong', sent: data.sent };
+        case 'peer':
+            if (!isPeerId(data.from)) break;
+            return { type: 'peer', from: data.from, message: parsePeerMessage(data.message) };
+    }
+    throw new ProtocolError(`Unknown relay message: ${String(data.type)}`);
+};
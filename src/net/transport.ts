@@ -0,0 +1,97 @@
+import type { ClientMessage, RelayMessage } from './protocol';
+
+/**
+ * 中継サーバーとの接続。実際の通信（WebSocket）と、同じ動きをするメモリ上の中継を差し替えられる。
+ * 届いたメッセージは onMessage で登録した関数に順に渡す。
+ */
+export interface Transport {
+    send: (message: ClientMessage) => void;
+    onMessage: (handler: (message: RelayMessage) => void) => void;
+    // 切断されたとき（自分で close したときは呼ばない）
+    onClose: (handler: () => void) => void;
+    close: () => void;
+}
+
+// 部屋の定員（server/relay.js と同じ）
+export const ROOM_CAPACITY = 4;
+
+export interface MemoryRelay {
+    connect: (room?: string) => Transport;
+}
+
+interface Endpoint {
+    id: number;
+    room: string;
+    deliver: (message: RelayMessage) => void;
+}
+
+/**
+ * 同じページの中だけで完結する中継。server/relay.js と同じように部屋ごとに番号を振り、
+ * 送られたメッセージを同じ部屋のほかの全員に配る。
+ * ハンドラを登録する前に届いたメッセージは、登録した時点でまとめて渡す。
+ * 満員の部屋に入ろうとしたときは roomFull だけ届き、あとは何も届かない。
+ */
+export const createMemoryRelay = (): MemoryRelay => {
+    const rooms = new Map<string, Endpoint[]>();
+    let nextId = 1;
+
+    const others = (endpoint: Endpoint) =>
+        (rooms.get(endpoint.room) ?? []).filter(other => other !== endpoint);
+
+    const leave = (endpoint: Endpoint) => {
+        const members = rooms.get(endpoint.room) ?? [];
+        if (!members.includes(endpoint)) return;
+        rooms.set(endpoint.room, members.filter(member => member !== endpoint));
+        others(endpoint).forEach(other => other.deliver({ type: 'peerLeft', id: endpoint.id }));
+    };
+
+    return {
+        connect: (room = 'lobby') => {
+            let handler: ((message: RelayMessage) => void) | null = null;
+            let isOpen = true;
+            const pending: RelayMessage[] = [];
+
+            const endpoint: Endpoint = {
+                id: nextId++,
+                room,
+                deliver: (message) => {
+                    if (!isOpen) return;
+                    if (handler) handler(message);
+                    else pending.push(message);
+                }
+            };
+
+            const members = rooms.get(room) ?? [];
+            const isFull = members.length >= ROOM_CAPACITY;
+            if (isFull) {
+                endpoint.deliver({ type: 'roomFull' });
+            } else {
+                endpoint.deliver({ type: 'welcome', id: endpoint.id, peers: members.map(member => member.id) });
+                members.forEach(member => member.deliver({ type: 'peerJoined', id: endpoint.id }));
+                rooms.set(room, [...members, endpoint]);
+            }
+
+            return {
+                send: (message) => {
+                    if (!isOpen || isFull) return;
+                    if (message.type === 'ping') {
+                        endpoint.deliver({ type: 'pong', sent: message.sent });
+                        return;
+                    }
+                    others(endpoint).forEach(other =>
+                        other.deliver({ type: 'peer', from: endpoint.id, message: message.message }));
+                },
+                onMessage: (next) => {
+                    handler = next;
+                    pending.splice(0).forEach(message => next(message));
+                },
+                // 同じページの中なので回線が切れることはない
+                onClose: () => {},
+                close: () => {
+                    isOpen = false;
+                    leave(endpoint);
+                }
+            };
+        }
+    };
+};
@@ -0,0 +1,76 @@
+import { parseRelayMessage, type ClientMessage, type RelayMessage } from './protocol';
+import type { Transport } from './transport';
+
+// 中継サーバー（server/relay.js）の既定の待ち受けポート
+export const DEFAULT_RELAY_PORT = 8787;
+
+/**
+ * 中継サーバーの URL。VITE_RELAY_URL があればそれを、なければページと同じホストの既定ポートを使う。
+ * https のページからは ws:// につなげないので、既定の URL はページに合わせて wss:// にする。
+ * 部屋はページの ?room= で選ぶ（なければ lobby）。
+ */
+export const relayUrl = (location: Location) => {
+    const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const base = import.meta.env.VITE_RELAY_URL ?? `${protocol}//${location.hostname}:${DEFAULT_RELAY_PORT}`;
+    const room = new URLSearchParams(location.search).get('room') ?? 'lobby';
+    return `${base}?room=${encodeURIComponent(room)}`;
+};
+
+// 接続を始められなかったときの接続。切断を待つ関数を登録したらすぐに呼ぶ
+const createFailedTransport = (): Transport => ({
+    send: () => undefined,
+    onMessage: () => undefined,
+    onClose: (next) => next(),
+    close: () => undefined
+});
+
+/**
+ * WebSocket で中継サーバーにつなぐ。つながる前に送ったものはつながってから送る。
+ * 中継サーバーから届いた不正なメッセージは警告を出して捨てる。
+ * URL が不正なときなど接続を始められなければ、例外を投げずに切断されたものとして扱う。
+ */
+export const createWebSocketTransport = (url: string): Transport => {
+    let socket: WebSocket;
+    try {
+        socket = new WebSocket(url);
+    } catch (error) {
+        console.warn('Failed to connect to the relay', error);
+        return createFailedTransport();
+    }
+    const queued: string[] = [];
+    let handler: ((message: RelayMessage) => void) | null = null;
+    let closeHandler: (() => void) | null = null;
+    let isClosing = false;
+
+    socket.addEventListener('open', () => {
+        queued.splice(0).forEach(data => socket.send(data));
+    });
+    socket.addEventListener('message', (event) => {
+        try {
+            handler?.(parseRelayMessage(JSON.parse(String(event.data))));
+        } catch (error) {
+            console.warn('Ignored a relay message', error);
+        }
+    });
+    socket.addEventListener('close', () => {
+        if (!isClosing) closeHandler?.();
+    });
+
+    return {
+        send: (message: ClientMessage) => {
+            const data = JSON.stringify(message);
+            if (socket.readyState === WebSocket.CONNECTING) queued.push(data);
+            else if (socket.readyState === WebSocket.OPEN) socket.send(data);
+        },
+        onMessage: (next) => {
+            handler = next;
+        },
+        onClose: (next) => {
+            closeHandler = next;
+        },
+        close: () => {
+            isClosing = true;
+            socket.close();
+        }
+    };
+};
@@ -0,0 +1,96 @@
+import { createViewCanvas } from './viewport';
+
+// 書き出すクリップの長さのめやす（ms）
+const CLIP_MS = 10_000;
+// 録画を重ねて始める間隔（ms）。書き出すクリップの長さは CLIP_MS〜CLIP_MS + STAGGER_MS になる
+const STAGGER_MS = 5_000;
+// これより古い録画は止めて捨てる
+const TAKE_LIFETIME_MS = CLIP_MS + STAGGER_MS;
+const FRAME_RATE = 30;
+// 先頭から順に使える形式を探す
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// 1本の録画
+interface Take {
+    recorder: MediaRecorder;
+    chunks: Blob[];
+    startedAt: number;
+}
+
+export interface ClipRecorder {
+    attach: () => void;
+    detach: () => void;
+    // 直近の約10秒を WebM にする。録画できない環境や録画を始める前は null
+    capture: () => Promise<Blob | null>;
+}
+
+/**
+ * canvas の映像を録画し続けて、いつでも直近の約10秒をクリップにできるようにする。
+ * WebM は途中から切り出すと再生できないので、STAGGER_MS ごとに新しい録画を重ねて始め、
+ * 書き出すときは CLIP_MS 以上たった中でいちばん新しい録画を止めてそのまま使う。
+ */
+export const createClipRecorder = (canvas: HTMLCanvasElement): ClipRecorder => {
+    const mimeType = typeof MediaRecorder === 'undefined'
+        ? undefined
+        : MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    let stream: MediaStream | null = null;
+    let takes: Take[] = [];
+    let timer: number | undefined;
+
+    const startTake = () => {
+        if (!stream || !mimeType) return;
+        const now = performance.now();
+        takes.filter(take => now - take.startedAt >= TAKE_LIFETIME_MS).forEach(take => take.recorder.stop());
+        takes = takes.filter(take => now - take.startedAt < TAKE_LIFETIME_MS);
+
+        try {
+            const take: Take = { recorder: new MediaRecorder(stream, { mimeType }), chunks: [], startedAt: now };
+            take.recorder.addEventListener('dataavailable', (e) => {
+                if (e.data.size > 0) take.chunks.push(e.data);
+            });
+            take.recorder.start();
+            takes.push(take);
+        } catch (error) {
+            console.warn('Failed to start clip recording', error);
+        }
+    };
+
+    return {
+        attach: () => {
+            if (!mimeType || typeof canvas.captureStream !== 'function') return;
+            stream = canvas.captureStream(FRAME_RATE);
+            startTake();
+            timer = window.setInterval(startTake, STAGGER_MS);
+        },
+        detach: () => {
+            window.clearInterval(timer);
+            takes.forEach(take => take.recorder.stop());
+            takes = [];
+            stream?.getTracks().forEach(track => track.stop());
+            stream = null;
+        },
+        capture: () => {
+            const now = performance.now();
+            // 録画はどれも短いうちは、いちばん長いものを使う
+            const ready = takes.filter(take => now - take.startedAt >= CLIP_MS);
+            const take = ready[ready.length - 1] ?? takes[0];
+            if (!take) return Promise.resolve(null);
+
+            takes = takes.filter(other => other !== take);
+            return new Promise(resolve => {
+                take.recorder.addEventListener('stop', () => resolve(new Blob(take.chunks, { type: mimeType })), { once: true });
+                take.recorder.stop();
+            });
+        }
+    };
+};
+
+// フレームを写した canvas に paint で重ね描きする（保存用の画像を作る）
+export const captureFrame = (frame: HTMLCanvasElement, paint: (ctx: CanvasRenderingContext2D) => void) => {
+    const canvas = createViewCanvas(frame.width, frame.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(frame, 0, 0);
+    paint(ctx);
+    return canvas;
+};
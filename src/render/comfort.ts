@@ -0,0 +1,41 @@
+import { DEFAULT_ACCESSIBILITY_SETTINGS, type AccessibilitySettings } from '../game/accessibility';
+
+// 明滅を抑えるときの文字の点滅の最短周期（ms、1回/秒まで）
+const MIN_BLINK_MS = 500;
+// 明滅を抑えるときの画面全体のフラッシュの明るさの上限と、ゆっくり明暗する周期（ms）
+const GENTLE_FLASH_ALPHA = 0.08;
+const GENTLE_FLASH_PERIOD_MS = 2000;
+
+// 描画のたびに renderSession から受け取る（レイヤーキャッシュの切り替えと同じくモジュールで持つ）
+let settings: AccessibilitySettings = DEFAULT_ACCESSIBILITY_SETTINGS;
+
+export const setComfortSettings = (next: AccessibilitySettings) => {
+    settings = next;
+};
+
+/**
+ * 周期 periodMs の点滅で time に表示しているか。
+ * 動きを減らす設定では常に表示し、明滅を抑える設定では周期を MIN_BLINK_MS 以上に延ばす。
+ */
+export const isBlinkOn = (time: number, periodMs: number) => {
+    if (settings.reducedMotion) return true;
+    const period = settings.reducedFlash ? Math.max(periodMs, MIN_BLINK_MS) : periodMs;
+    return Math.floor(time / period) % 2 === 0;
+};
+
+// 動きを減らす設定か（滑り込みなどの動きを止める）
+export const isMotionReduced = () => settings.reducedMotion;
+
+// 画面の揺れの幅に掛ける倍率
+export const shakeScale = () => (settings.reducedMotion ? 0 : settings.shakeStrength);
+
+/**
+ * 画面全体のフラッシュの不透明度。通常はステップごとにばらつかせ、
+ * 明滅を抑える設定では弱い明るさでゆっくり明暗させる。
+ * 乱数はどちらでも1回引いて、ほかの演出の乱数の並びを変えない。
+ */
+export const flashAlpha = (time: number, random: () => number) => {
+    const value = random() * 0.3 + 0.1;
+    if (!settings.reducedFlash) return value;
+    return GENTLE_FLASH_ALPHA * (0.5 + 0.5 * Math.sin(time * 2 * Math.PI / GENTLE_FLASH_PERIOD_MS));
+};
@@ -0,0 +1,85 @@
+import { RESULT_DELAY_MS, type Session } from '../game/lifecycle';
+import { launchTimeLeft, ORBIT_STAGES, orbitTargetTime } from '../game/simulation';
+import type { GameState } from '../game/types';
+
+// ゲームの状態以外に表示するもの
+export interface DebugInfo {
+    fps: number;
+    // 直近の平均描画時間（ms）
+    frameMs: number | null;
+    timeScale: number;
+    isPaused: boolean;
+}
+
+const LINE_HEIGHT = 12;
+const COLUMN_WIDTH = 240;
+const FONT = '10px monospace';
+
+const HELP_LINES = [
+    '1-4 SCENE  5-8 ALTITUDE',
+    'F FUEL FULL  E FUEL EMPTY',
+    '[ ] SPEED  0 x1',
+    '\\ FREEZE  . STEP  F3 CLOSE'
+];
+
+// 表示すると長すぎるもの
+const HIDDEN_FIELDS: (keyof GameState)[] = ['config'];
+
+const formatValue = (value: unknown): string => {
+    if (typeof value === 'number') return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+    if (Array.isArray(value)) return `[${value.length}]`;
+    if (typeof value === 'object' && value !== null) return 'id' in value ? String(value.id) : '{...}';
+    return String(value);
+};
+
+const formatGate = (ms: number | null) => (ms === null ? '--' : `${Math.max(ms, 0).toFixed(0)}ms`);
+
+// カウントダウンや制限時間など、時間で次に進む関門の残り時間（今は関係ないものは null）
+const gatesOf = (state: GameState): [string, number | null][] => {
+    const { config, time, scene } = state;
+    const isOver = state.isExploded || state.isFailed;
+    const stage = state.orbitJudgements.length;
+    return [
+        ['LAUNCH COUNTDOWN', scene === 'power' && state.isFullPower ? state.fullPowerTime + config.countdownMs - time : null],
+        ['IGNITION', scene === 'launch' ? state.launchStartTime + config.countdownMs - time : null],
+        ['LAUNCH LIMIT', scene === 'launch' && !isOver ? launchTimeLeft(state) : null],
+        ['ATMOSPHERE BREAK', scene === 'atmosphere' ? state.atmosphereStartTime + config.countdownMs - time : null],
+        ['NEXT STAGE', scene === 'orbit' && stage < ORBIT_STAGES.length ? orbitTargetTime(state, stage) - time : null],
+        ['RESULT', isOver ? state.endTime + RESULT_DELAY_MS - time : null]
+    ];
+};
+
+/**
+ * F3 のデバッグ表示。左の列に FPS・描画時間・シーン・関門の残り時間・操作説明、
+ * 右の列に GameState の全フィールドを出す。
+ */
+export const drawDebugOverlay = (ctx: CanvasRenderingContext2D, session: Session, info: DebugInfo) => {
+    const { state } = session;
+    const activeParticles = session.effects.pool.particles.filter(particle => particle.active).length;
+    const fields = (Object.entries(state) as [keyof GameState, unknown][])
+        .filter(([key]) => !HIDDEN_FIELDS.includes(key));
+
+    const left = [
+        `FPS ${info.fps}  FRAME ${info.frameMs === null ? '--' : `${info.frameMs.toFixed(2)}ms`}`,
+        `SCREEN ${session.screen}  SCENE ${state.scene}`,
+        `TIME x${info.timeScale}${info.isPaused ? '  PAUSED' : ''}`,
+        `PARTICLES ${activeParticles}/${session.effects.pool.particles.length}`,
+        '',
+        ...gatesOf(state).map(([label, ms]) => `${label.padEnd(17, ' ')}${formatGate(ms)}`),
+        '',
+        ...HELP_LINES
+    ];
+    const right = fields.map(([key, value]) => `${key}: ${formatValue(value)}`);
+    const rows = Math.max(left.length, right.length);
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(4, 4, COLUMN_WIDTH * 2 + 8, rows * LINE_HEIGHT + 8);
+
+    ctx.font = FONT;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#00FF66';
+    left.forEach((line, i) => ctx.fillText(line, 8, 8 + i * LINE_HEIGHT));
+    ctx.fillStyle = '#FFFFFF';
+    right.forEach((line, i) => ctx.fillText(line, 8 + COLUMN_WIDTH, 8 + i * LINE_HEIGHT));
+};
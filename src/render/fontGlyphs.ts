@@ -0,0 +1,98 @@
+// 同梱のドット文字（ASCII）。1文字は 7×7 で、# が塗り。
+// 右と下の1列ずつは字間・行間として空けるので、縁取りが隣の文字の塗りに重ならない
+export const FONT_GLYPHS: Record<string, readonly string[]> = {
+    '!': ['...##..', '...##..', '...##..', '...##..', '...##..', '.......', '...##..'],
+    '"': ['.##.##.', '.##.##.', '.#..#..', '.......', '.......', '.......', '.......'],
+    '#': ['.##.##.', '#######', '.##.##.', '.##.##.', '.##.##.', '#######', '.##.##.'],
+    '$': ['...#...', '.######', '#..#...', '.#####.', '...#..#', '######.', '...#...'],
+    '%': ['##...##', '##..##.', '...##..', '..##...', '.##....', '##..##.', '#...##.'],
+    '&': ['.###...', '##.##..', '##.##..', '.###...', '##.####', '##..##.', '.###.##'],
+    "'": ['...##..', '...##..', '..##...', '.......', '.......', '.......', '.......'],
+    '(': ['....##.', '...##..', '..##...', '..##...', '..##...', '...##..', '....##.'],
+    ')': ['.##....', '..##...', '...##..', '...##..', '...##..', '..##...', '.##....'],
+    '*': ['.......', '.##.##.', '..###..', '#######', '..###..', '.##.##.', '.......'],
+    '+': ['.......', '...##..', '...##..', '.######', '...##..', '...##..', '.......'],
+    ',': ['.......', '.......', '.......', '.......', '...##..', '...##..', '..##...'],
+    '-': ['.......', '.......', '.......', '.######', '.......', '.......', '.......'],
+    '.': ['.......', '.......', '.......', '.......', '.......', '...##..', '...##..'],
+    '/': ['......#', '.....##', '....##.', '...##..', '..##...', '.##....', '##.....'],
+    '0': ['..###..', '.##.##.', '##...##', '##...##', '##...##', '.##.##.', '..###..'],
+    '1': ['...##..', '..###..', '...##..', '...##..', '...##..', '...##..', '.######'],
+    '2': ['.#####.', '##...##', '....###', '..####.', '.####..', '###....', '#######'],
+    '3': ['.#####.', '##...##', '.....##', '..####.', '.....##', '##...##', '.#####.'],
+    '4': ['...###.', '..####.', '.##.##.', '##..##.', '#######', '....##.', '....##.'],
+    '5': ['#######', '##.....', '######.', '.....##', '.....##', '##...##', '.#####.'],
+    '6': ['..####.', '.##....', '##.....', '######.', '##...##', '##...##', '.#####.'],
+    '7': ['#######', '##...##', '....##.', '...##..', '..##...', '..##...', '..##...'],
+    '8': ['.#####.', '##...##', '##...##', '.#####.', '##...##', '##...##', '.#####.'],
+    '9': ['.#####.', '##...##', '##...##', '.######', '.....##', '....##.', '.####..'],
+    ':': ['.......', '...##..', '...##..', '.......', '...##..', '...##..', '.......'],
+    ';': ['.......', '...##..', '...##..', '.......', '...##..', '...##..', '..##...'],
+    '<': ['....##.', '...##..', '..##...', '.##....', '..##...', '...##..', '....##.'],
+    '=': ['.......', '.......', '.######', '.......', '.######', '.......', '.......'],
+    '>': ['.##....', '..##...', '...##..', '....##.', '...##..', '..##...', '.##....'],
+    '?': ['.#####.', '##...##', '....###', '...###.', '...##..', '.......', '...##..'],
+    '@': ['.#####.', '##...##', '##.####', '##.####', '##.###.', '##.....', '.#####.'],
+    'A': ['..###..', '.##.##.', '##...##', '##...##', '#######', '##...##', '##...##'],
+    'B': ['######.', '##...##', '##...##', '######.', '##...##', '##...##', '######.'],
+    'C': ['..####.', '.##..##', '##.....', '##.....', '##.....', '.##..##', '..####.'],
+    'D': ['#####..', '##..##.', '##...##', '##...##', '##...##', '##..##.', '#####..'],
+    'E': ['#######', '##.....', '##.....', '######.', '##.....', '##.....', '#######'],
+    'F': ['#######', '##.....', '##.....', '######.', '##.....', '##.....', '##.....'],
+    'G': ['..#####', '.##....', '##.....', '##..###', '##...##', '.##..##', '..#####'],
+    'H': ['##...##', '##...##', '##...##', '#######', '##...##', '##...##', '##...##'],
+    'I': ['.######', '...##..', '...##..', '...##..', '...##..', '...##..', '.######'],
+    'J': ['....###', '.....##', '.....##', '.....##', '##...##', '##...##', '.#####.'],
+    'K': ['##...##', '##..##.', '##.##..', '####...', '#####..', '##..##.', '##...##'],
+    'L': ['##.....', '##.....', '##.....', '##.....', '##.....', '##.....', '#######'],
+    'M': ['##...##', '###.###', '#######', '#######', '##.#.##', '##...##', '##...##'],
+    'N': ['##...##', '###..##', '####.##', '#######', '##.####', '##..###', '##...##'],
+    'O': ['.#####.', '##...##', '##...##', '##...##', '##...##', '##...##', '.#####.'],
+    'P': ['######.', '##...##', '##...##', '##...##', '######.', '##.....', '##.....'],
+    'Q': ['.#####.', '##...##', '##...##', '##...##', '##.####', '##..##.', '.####.#'],
+    'R': ['######.', '##...##', '##...##', '##..###', '#####..', '##.###.', '##..###'],
+    'S': ['.####..', '##..##.', '##.....', '.#####.', '.....##', '##...##', '.#####.'],
+    'T': ['.######', '...##..', '...##..', '...##..', '...##..', '...##..', '...##..'],
+    'U': ['##...##', '##...##', '##...##', '##...##', '##...##', '##...##', '.#####.'],
+    'V': ['##...##', '##...##', '##...##', '###.###', '.#####.', '..###..', '...#...'],
+    'W': ['##...##', '##...##', '##.#.##', '#######', '#######', '###.###', '##...##'],
+    'X': ['##...##', '###.###', '.#####.', '..###..', '.#####.', '###.###', '##...##'],
+    'Y': ['.##..##', '.##..##', '.##..##', '..####.', '...##..', '...##..', '...##..'],
+    'Z': ['#######', '....###', '...###.', '..###..', '.###...', '###....', '#######'],
+    '[': ['..####.', '..##...', '..##...', '..##...', '..##...', '..##...', '..####.'],
+    '\\': ['#......', '##.....', '.##....', '..##...', '...##..', '....##.', '.....##'],
+    ']': ['.####..', '...##..', '...##..', '...##..', '...##..', '...##..', '.####..'],
+    '^': ['...#...', '..###..', '.##.##.', '##...##', '.......', '.......', '.......'],
+    '_': ['.......', '.......', '.......', '.......', '.......', '.......', '#######'],
+    '`': ['..##...', '...##..', '....#..', '.......', '.......', '.......', '.......'],
+    'a': ['.......', '.......', '.#####.', '.....##', '.######', '##...##', '.######'],
+    'b': ['##.....', '##.....', '######.', '##...##', '##...##', '##...##', '######.'],
+    'c': ['.......', '.......', '.######', '##.....', '##.....', '##.....', '.######'],
+    'd': ['.....##', '.....##', '.######', '##...##', '##...##', '##...##', '.######'],
+    'e': ['.......', '.......', '.#####.', '##...##', '#######', '##.....', '.#####.'],
+    'f': ['...####', '..##...', '.######', '..##...', '..##...', '..##...', '..##...'],
+    'g': ['.......', '.######', '##...##', '##...##', '.######', '.....##', '.#####.'],
+    'h': ['##.....', '##.....', '######.', '##...##', '##...##', '##...##', '##...##'],
+    'i': ['...##..', '.......', '..###..', '...##..', '...##..', '...##..', '.######'],
+    'j': ['....##.', '.......', '...###.', '....##.', '....##.', '##..##.', '.####..'],
+    'k': ['##.....', '##.....', '##..##.', '##.##..', '####...', '##.##..', '##..##.'],
+    'l': ['..###..', '...##..', '...##..', '...##..', '...##..', '...##..', '.######'],
+    'm': ['.......', '.......', '###.##.', '#######', '##.#.##', '##.#.##', '##...##'],
+    'n': ['.......', '.......', '######.', '##...##', '##...##', '##...##', '##...##'],
+    'o': ['.......', '.......', '.#####.', '##...##', '##...##', '##...##', '.#####.'],
+    'p': ['.......', '######.', '##...##', '##...##', '######.', '##.....', '##.....'],
+    'q': ['.......', '.######', '##...##', '##...##', '.######', '.....##', '.....##'],
+    'r': ['.......', '.......', '##.###.', '###..##', '##.....', '##.....', '##.....'],
+    's': ['.......', '.......', '.######', '##.....', '.#####.', '.....##', '######.'],
+    't': ['..##...', '..##...', '######.', '..##...', '..##...', '..##...', '...####'],
+    'u': ['.......', '.......', '##...##', '##...##', '##...##', '##...##', '.######'],
+    'v': ['.......', '.......', '##...##', '##...##', '###.###', '.#####.', '..###..'],
+    'w': ['.......', '.......', '##...##', '##.#.##', '#######', '#######', '.##.##.'],
+    'x': ['.......', '.......', '##...##', '.##.##.', '..###..', '.##.##.', '##...##'],
+    'y': ['.......', '##...##', '##...##', '##...##', '.######', '.....##', '.#####.'],
+    'z': ['.......', '.......', '#######', '....##.', '..###..', '.##....', '#######'],
+    '{': ['....##.', '...##..', '...##..', '.###...', '...##..', '...##..', '....##.'],
+    '|': ['...##..', '...##..', '...##..', '...##..', '...##..', '...##..', '...##..'],
+    '}': ['.##....', '..##...', '..##...', '...###.', '..##...', '..##...', '.##....'],
+    '~': ['.......', '.......', '.###..#', '##.####', '#..###.', '.......', '.......']
+};
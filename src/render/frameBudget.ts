@@ -0,0 +1,54 @@
+// 1フレームの描画にかけられる時間（60fps）
+export const FRAME_BUDGET_MS = 1000 / 60;
+
+// 平均をとるフレーム数
+const SAMPLE_COUNT = 120;
+
+// レイヤーキャッシュを使った描画と、毎回描き直す描画
+export type RenderMode = 'cached' | 'direct';
+
+export interface FrameBudget {
+    record: (mode: RenderMode, ms: number) => void;
+    // 直近のフレームの平均描画時間（ms）。まだ測っていなければ null
+    average: (mode: RenderMode) => number | null;
+}
+
+/**
+ * 描画時間を描画方法ごとに記録する。
+ * キャッシュの有無を切り替えても、それぞれ最後に測った平均は残るので比較できる。
+ */
+export const createFrameBudget = (): FrameBudget => {
+    const samples: Record<RenderMode, number[]> = { cached: [], direct: [] };
+
+    return {
+        record: (mode, ms) => {
+            const list = samples[mode];
+            list.push(ms);
+            if (list.length > SAMPLE_COUNT) list.shift();
+        },
+        average: (mode) => {
+            const list = samples[mode];
+            if (list.length === 0) return null;
+            return list.reduce((sum, ms) => sum + ms, 0) / list.length;
+        }
+    };
+};
+
+export interface FpsMeter {
+    // render のたびに呼ぶ（now は performance.now() の値）
+    tick: (now: number) => void;
+    fps: () => number;
+}
+
+// 直近1秒間に描いたフレーム数
+export const createFpsMeter = (): FpsMeter => {
+    const frames: number[] = [];
+
+    return {
+        tick: (now) => {
+            frames.push(now);
+            while (frames.length > 0 && now - frames[0] > 1000) frames.shift();
+        },
+        fps: () => frames.length
+    };
+};
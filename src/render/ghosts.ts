@@ -0,0 +1,63 @@
+import { ROCKETS } from '../game/catalog';
+import { rocketTopY } from '../game/effects';
+import { predictGhost, type OnlineRace } from '../game/online';
+import type { GameState } from '../game/types';
+import type { GhostSnapshot } from '../net/protocol';
+import { drawPixelText } from './pixelText';
+import { formatAltitude, metersPerPixel } from './scenes';
+import { drawRocket } from './sprites';
+import { messages } from '../i18n/locale';
+
+// 自分のロケットの横に並べる間隔（px）
+const GHOST_SPACING = 110;
+const GHOST_ALPHA = 0.45;
+const LEFT_GHOST_ALPHA = 0.2;
+// 画面の上下に収めるときの余白（px）
+const GHOST_MARGIN_TOP = 56;
+const GHOST_MARGIN_BOTTOM = 120;
+const GHOST_LABEL_COLOR = '#88CCFF';
+
+const ghostStatus = (snapshot: GhostSnapshot, hasLeft: boolean) => {
+    const { outcomes } = messages();
+    if (snapshot.isExploded) return outcomes.orbit;
+    if (snapshot.isFailed) return outcomes.failed;
+    if (hasLeft) return outcomes.left;
+    return snapshot.scene === 'power' ? `${Math.floor(snapshot.power)}%` : formatAltitude(snapshot.altitude);
+};
+
+// 自分のロケットの上端が画面のどこにあるか（地上では発射台の上、飛んでからはおおよそ画面の中ほど）
+const localRocketY = (state: GameState, height: number) =>
+    state.scene === 'power' || state.scene === 'launch' ? height - 100 + rocketTopY(state) : height * 0.45;
+
+/**
+ * オンライン対戦の相手を半透明のロケットで左右に交互に並べる。
+ * 高さは自分との高度差を今の縮尺で画面に写したもので、画面外なら上下の端に寄せて矢印を付ける。
+ */
+export const drawGhosts = (ctx: CanvasRenderingContext2D, race: OnlineRace, state: GameState, now: number) => {
+    const { width, height } = ctx.canvas;
+    const anchorY = localRocketY(state, height);
+    const scale = metersPerPixel(state.altitude, height);
+
+    [...race.ghosts.values()].forEach((ghost, i) => {
+        const side = i % 2 === 0 ? 1 : -1;
+        const x = width / 2 + side * (Math.floor(i / 2) + 1) * GHOST_SPACING;
+        const snapshot = predictGhost(race, ghost, now);
+        if (!snapshot) {
+            drawPixelText(ctx, `P${ghost.id}`, x, anchorY - 24, 12, GHOST_LABEL_COLOR);
+            return;
+        }
+
+        const rawY = anchorY - (snapshot.altitude - state.altitude) / scale;
+        const y = Math.min(Math.max(rawY, GHOST_MARGIN_TOP), height - GHOST_MARGIN_BOTTOM);
+        const rocket = ROCKETS[snapshot.rocket];
+
+        ctx.globalAlpha = ghost.hasLeft ? LEFT_GHOST_ALPHA : GHOST_ALPHA;
+        // ほかのプレイヤーの塗装はわからないので標準の配色で描く
+        drawRocket(ctx, x, y, snapshot.time, rocket, rocket.palette);
+        ctx.globalAlpha = 1;
+
+        const arrow = rawY < y ? '^ ' : rawY > y ? 'v ' : '';
+        drawPixelText(ctx, `P${ghost.id}`, x, y - rocket.width / 2 - 28, 12, GHOST_LABEL_COLOR);
+        drawPixelText(ctx, `${arrow}${ghostStatus(snapshot, ghost.hasLeft)}`, x, y - rocket.width / 2 - 12, 10);
+    });
+};
@@ -0,0 +1,53 @@
+import type { AudioSettings } from '../audio/soundEngine';
+import { drawPixelText } from './pixelText';
+import { messages } from '../i18n/locale';
+import { FRAME_BUDGET_MS, type FrameBudget, type RenderMode } from './frameBudget';
+
+// 右上の音量表示。showHelp のときは操作説明と音量も出す
+export const drawAudioHud = (ctx: CanvasRenderingContext2D, settings: AudioSettings, showHelp: boolean) => {
+    const x = ctx.canvas.width - 120;
+    const m = messages();
+
+    if (settings.muted) {
+        drawPixelText(ctx, m.hud.mute, x, 30, 16, '#FF4444');
+    } else if (showHelp) {
+        drawPixelText(ctx, m.hud.volume(Math.round(settings.master * 100)), x, 30, 12);
+    }
+
+    if (showHelp) {
+        drawPixelText(ctx, m.hud.help, x - 40, 56, 10);
+    }
+};
+
+const formatMs = (ms: number | null) => (ms === null ? '--' : `${ms.toFixed(2)}ms`);
+
+// 左下の描画時間の表示。1フレームの持ち時間に対する割合をバーで示し、キャッシュなしとの差も出す
+export const drawFrameBudget = (ctx: CanvasRenderingContext2D, budget: FrameBudget, mode: RenderMode) => {
+    const x = 16;
+    const y = ctx.canvas.height - 72;
+    const barWidth = 160;
+    const current = budget.average(mode);
+    const other = budget.average(mode === 'cached' ? 'direct' : 'cached');
+    const ratio = Math.min((current ?? 0) / FRAME_BUDGET_MS, 1);
+
+    ctx.fillStyle = '#333333';
+    ctx.fillRect(x - 2, y - 2, barWidth + 4, 12);
+    ctx.fillStyle = ratio < 0.5 ? '#44FF44' : ratio < 1 ? '#FFDD00' : '#FF4444';
+    ctx.fillRect(x, y, barWidth * ratio, 8);
+
+    const center = x + barWidth / 2;
+    drawPixelText(ctx, `RENDER ${formatMs(current)} / ${FRAME_BUDGET_MS.toFixed(1)}ms`, center, y + 24, 10);
+    drawPixelText(
+        ctx,
+        `CACHE ${mode === 'cached' ? 'ON ' : 'OFF'}  ${mode === 'cached' ? 'OFF' : 'ON'}: ${formatMs(other)}`,
+        center,
+        y + 42,
+        10
+    );
+    if (current !== null && other !== null && current > 0) {
+        const gain = mode === 'cached' ? other / current : current / other;
+        drawPixelText(ctx, `CACHE GAIN x${gain.toFixed(1)}  F4: TOGGLE`, center, y + 60, 10);
+    } else {
+        drawPixelText(ctx, 'F4: TOGGLE CACHE', center, y + 60, 10);
+    }
+};
@@ -0,0 +1,63 @@
+// 変化しない部品（発射台・地面・星空・縁取り文字）を一度だけ描いておき、毎フレームは写すだけにする
+
+export type Layer = OffscreenCanvas | HTMLCanvasElement;
+
+// レイヤーに描く関数が受け取る描画先（画面の canvas にもそのまま描ける）
+export type LayerContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// 描画済みのレイヤーを写すか、毎回描き直すか（描画時間の比較用に切り替えられる）
+let cacheEnabled = true;
+
+export const isLayerCacheEnabled = () => cacheEnabled;
+
+export const setLayerCacheEnabled = (enabled: boolean) => {
+    cacheEnabled = enabled;
+};
+
+// width × height の描画先を作る。作れなければ null
+export const createLayerContext = (width: number, height: number): LayerContext | null => {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(width, height).getContext('2d');
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas.getContext('2d');
+};
+
+// width × height のレイヤーを作り、paint で描く。描けなければ null
+export const renderLayer = (width: number, height: number, paint: (ctx: LayerContext) => void): Layer | null => {
+    const ctx = createLayerContext(Math.max(Math.ceil(width), 1), Math.max(Math.ceil(height), 1));
+    if (!ctx) return null;
+    paint(ctx);
+    return ctx.canvas;
+};
+
+/**
+ * key のレイヤーを (x, y) を左上として写す。初回はレイヤーを作って cache に入れる。
+ * paint はレイヤーの左上を原点として描く。キャッシュが無効なときやレイヤーを作れないときは画面に直接描く。
+ */
+export const drawCachedLayer = <K>(
+    ctx: CanvasRenderingContext2D,
+    cache: Map<K, Layer | null>,
+    key: K,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    paint: (ctx: LayerContext) => void
+) => {
+    if (cacheEnabled && !cache.has(key)) {
+        cache.set(key, renderLayer(width, height, paint));
+    }
+    const layer = cacheEnabled ? cache.get(key) : null;
+
+    if (layer) {
+        ctx.drawImage(layer, Math.round(x), Math.round(y));
+    } else {
+        ctx.save();
+        ctx.translate(x, y);
+        paint(ctx);
+        ctx.restore();
+    }
+};
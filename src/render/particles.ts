@@ -0,0 +1,81 @@
+import type { Cloud } from '../game/types';
+import { particleAge, particleColor, type Particle, type ParticlePool } from '../game/particles';
+
+// ワールド座標の原点（発射台基部）が画面上のどこにあるか
+export interface Camera {
+    x: number;
+    y: number;
+}
+
+// 雲が横に流れる速さ（speed 1 あたり px/ms）
+const CLOUD_DRIFT_PX_PER_MS = 0.02;
+
+const particleSize = (particle: Particle) => particle.size * (1 + (particle.growth - 1) * particleAge(particle));
+
+/**
+ * パーティクルを描く。煙の円は色ごとに1つのパスにまとめて塗り、
+ * 火花などの四角はその上に描く。
+ */
+export const drawParticles = (ctx: CanvasRenderingContext2D, pool: ParticlePool, camera: Camera) => {
+    const paths = new Map<string, Path2D>();
+
+    for (const particle of pool.particles) {
+        if (!particle.active || particle.shape !== 'circle') continue;
+
+        const x = camera.x + particle.x;
+        const y = camera.y + particle.y;
+        const size = particleSize(particle);
+        const color = particleColor(particle);
+
+        let path = paths.get(color);
+        if (!path) {
+            path = new Path2D();
+            paths.set(color, path);
+        }
+        path.moveTo(x + size, y);
+        path.arc(x, y, size, 0, Math.PI * 2);
+    }
+    paths.forEach((path, color) => {
+        ctx.fillStyle = color;
+        ctx.fill(path);
+    });
+
+    for (const particle of pool.particles) {
+        if (!particle.active || particle.shape === 'circle') continue;
+
+        const x = camera.x + particle.x;
+        const y = camera.y + particle.y;
+        const size = particleSize(particle);
+
+        ctx.fillStyle = particleColor(particle);
+        ctx.fillRect(Math.round(x - size / 2), Math.round(y - size / 2), size, size);
+    }
+};
+
+/**
+ * 横に流れる雲をドット絵風に描画する。
+ * scrollY はロケットの上昇に合わせて雲を下へずらす量。
+ */
+export const drawClouds = (
+    ctx: CanvasRenderingContext2D,
+    clouds: Cloud[],
+    time: number,
+    scrollY: number = 0
+) => {
+    const width = ctx.canvas.width;
+
+    clouds.forEach(cloud => {
+        const y = Math.round(cloud.y + scrollY);
+        if (y - cloud.height > ctx.canvas.height) return;
+
+        // 右端から出たら左端に戻る
+        const span = width + cloud.width;
+        const x = Math.round(((cloud.x + cloud.speed * time * CLOUD_DRIFT_PX_PER_MS) % span + span) % span - cloud.width);
+        const block = 8;
+
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+        ctx.fillRect(x, y + cloud.height / 3, cloud.width, cloud.height / 3);
+        ctx.fillRect(x + block, y + block, cloud.width - block * 2, cloud.height - block * 2);
+        ctx.fillRect(x + cloud.width / 4, y, cloud.width / 2, cloud.height);
+    });
+};
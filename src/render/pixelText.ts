@@ -0,0 +1,247 @@
+import { FONT_GLYPHS } from './fontGlyphs';
+import { isLayerCacheEnabled, renderLayer, type Layer, type LayerContext } from './layerCache';
+import { WIDE_GLYPHS } from './wideGlyphs';
+
+// 同梱の文字の1文字分の枠（等倍の px）。size はこの倍数に切り下げて整数倍で拡大する
+const CELL = 8;
+// 縁取りの太さ（等倍の px）
+const OUTLINE = 1;
+const OUTLINE_COLOR = '#000000';
+// 行の間隔（枠の何倍か）
+const LINE_SPACING = 1.5;
+
+// ASCII 以外の文字（日本語など）は wideGlyphs.ts の 16px の字形を2文字分の幅で使う
+const WIDE_CELL = 16;
+
+// 0: 透明、1: 塗り、2: 縁取り
+interface Glyph {
+    width: number;
+    height: number;
+    pixels: Uint8Array;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface PixelTextOptions {
+    // x を左端・中央・右端のどれとして並べるか
+    align?: TextAlign;
+    // この幅（px）を超える行は空白か日本語の文字の間で折り返す
+    maxWidth?: number;
+}
+
+// 塗りの周り8方向に縁取りを付けた字形を作る
+const bake = (width: number, height: number, isFilled: (x: number, y: number) => boolean): Glyph => {
+    const glyph = { width: width + OUTLINE * 2, height: height + OUTLINE * 2 };
+    const pixels = new Uint8Array(glyph.width * glyph.height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!isFilled(x, y)) continue;
+            for (let j = -OUTLINE; j <= OUTLINE; j++) {
+                for (let i = -OUTLINE; i <= OUTLINE; i++) {
+                    pixels[(y + OUTLINE + j) * glyph.width + x + OUTLINE + i] = 2;
+                }
+            }
+        }
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (isFilled(x, y)) pixels[(y + OUTLINE) * glyph.width + x + OUTLINE] = 1;
+        }
+    }
+    return { ...glyph, pixels };
+};
+
+const BUNDLED_CHARS = Object.keys(FONT_GLYPHS);
+const bundledGlyphs = new Map(
+    BUNDLED_CHARS.map(char => [char, bake(CELL, CELL, (x, y) => FONT_GLYPHS[char][y]?.[x] === '#')] as const)
+);
+// アトラスの何枠目か
+const atlasSlots = new Map(BUNDLED_CHARS.map((char, i) => [char, i] as const));
+const wideGlyphs = new Map<string, Glyph>();
+
+const isBundled = (char: string) => char === ' ' || bundledGlyphs.has(char);
+
+const scaleOf = (size: number) => Math.max(Math.floor(size / CELL), 1);
+// 2文字分の幅の文字は同梱の文字とおおよそ同じ高さになるように拡大する
+const wideScaleOf = (scale: number) => Math.max(Math.round(scale / 2), 1);
+
+const advanceOf = (char: string, scale: number) => (isBundled(char) ? CELL * scale : WIDE_CELL * wideScaleOf(scale));
+
+const lineHeightOf = (scale: number) => Math.round(CELL * LINE_SPACING) * scale;
+
+// 行の中の字形の高さ。2文字分の幅の文字があればそちらに合わせる
+const glyphHeightOf = (text: string, scale: number) =>
+    Array.from(text).every(isBundled) ? CELL * scale : Math.max(CELL * scale, WIDE_CELL * wideScaleOf(scale));
+
+const lineWidth = (chars: string[], scale: number) => chars.reduce((width, char) => width + advanceOf(char, scale), 0);
+
+// 作っていない文字は枠だけの四角にする（メッセージを足したら yarn glyphs で作り直す）
+const isMissingFilled = (x: number, y: number) =>
+    x >= 2 && x <= WIDE_CELL - 3 && y >= 2 && y <= WIDE_CELL - 3 && (x === 2 || x === WIDE_CELL - 3 || y === 2 || y === WIDE_CELL - 3);
+
+// 16進4桁で1行を表した字形を焼く
+const wideGlyphOf = (char: string) => {
+    const cached = wideGlyphs.get(char);
+    if (cached) return cached;
+    const hex = WIDE_GLYPHS[char];
+    const glyph = bake(WIDE_CELL, WIDE_CELL, hex === undefined
+        ? isMissingFilled
+        : (x, y) => ((parseInt(hex.slice(y * 4, y * 4 + 4), 16) >> (WIDE_CELL - 1 - x)) & 1) === 1);
+    wideGlyphs.set(char, glyph);
+    return glyph;
+};
+
+// 字形を画素ごとに塗る（レイヤーを作るときと、キャッシュが無効なときに使う）
+const paintGlyph = (ctx: LayerContext, glyph: Glyph, x: number, y: number, scale: number, color: string) => {
+    ([[2, OUTLINE_COLOR], [1, color]] as const).forEach(([value, fill]) => {
+        ctx.fillStyle = fill;
+        for (let j = 0; j < glyph.height; j++) {
+            for (let i = 0; i < glyph.width; i++) {
+                if (glyph.pixels[j * glyph.width + i] === value) ctx.fillRect(x + i * scale, y + j * scale, scale, scale);
+            }
+        }
+    });
+};
+
+// 同梱の文字を色ごとに1枚に並べたアトラス。縁取りまで描き込んである
+const ATLAS_COLUMNS = 16;
+const SLOT = CELL + OUTLINE * 2;
+const atlases = new Map<string, Layer | null>();
+const wideLayers = new Map<string, Layer | null>();
+
+const atlasOf = (color: string) => {
+    if (!atlases.has(color)) {
+        const rows = Math.ceil(BUNDLED_CHARS.length / ATLAS_COLUMNS);
+        atlases.set(color, renderLayer(ATLAS_COLUMNS * SLOT, rows * SLOT, ctx => {
+            BUNDLED_CHARS.forEach((char, i) => {
+                const glyph = bundledGlyphs.get(char);
+                if (glyph) paintGlyph(ctx, glyph, (i % ATLAS_COLUMNS) * SLOT, Math.floor(i / ATLAS_COLUMNS) * SLOT, 1, color);
+            });
+        }));
+    }
+    return atlases.get(color) ?? null;
+};
+
+const wideLayerOf = (char: string, glyph: Glyph, color: string) => {
+    const key = `${color}:${char}`;
+    if (!wideLayers.has(key)) {
+        wideLayers.set(key, renderLayer(glyph.width, glyph.height, ctx => paintGlyph(ctx, glyph, 0, 0, 1, color)));
+    }
+    return wideLayers.get(key) ?? null;
+};
+
+// 1文字を左上 (x, y) の枠に描く。縁取りは枠の外に OUTLINE だけはみ出す
+const drawGlyph = (ctx: CanvasRenderingContext2D, char: string, x: number, y: number, scale: number, color: string) => {
+    if (char === ' ') return;
+    const isCached = isLayerCacheEnabled();
+
+    const bundled = bundledGlyphs.get(char);
+    if (bundled) {
+        const atlas = isCached ? atlasOf(color) : null;
+        if (!atlas) {
+            paintGlyph(ctx, bundled, x - OUTLINE * scale, y - OUTLINE * scale, scale, color);
+            return;
+        }
+        const index = atlasSlots.get(char) ?? 0;
+        ctx.drawImage(
+            atlas,
+            (index % ATLAS_COLUMNS) * SLOT,
+            Math.floor(index / ATLAS_COLUMNS) * SLOT,
+            SLOT,
+            SLOT,
+            x - OUTLINE * scale,
+            y - OUTLINE * scale,
+            SLOT * scale,
+            SLOT * scale
+        );
+        return;
+    }
+
+    const glyph = wideGlyphOf(char);
+    const wideScale = wideScaleOf(scale);
+    // 2文字分の枠の高さを同梱の文字の枠の中央に合わせる
+    const top = y + Math.round((CELL * scale - WIDE_CELL * wideScale) / 2);
+    const layer = isCached ? wideLayerOf(char, glyph, color) : null;
+    if (!layer) {
+        paintGlyph(ctx, glyph, x - OUTLINE * wideScale, top - OUTLINE * wideScale, wideScale, color);
+        return;
+    }
+    ctx.drawImage(layer, x - OUTLINE * wideScale, top - OUTLINE * wideScale, glyph.width * wideScale, glyph.height * wideScale);
+};
+
+// 1段落を maxWidth に収まるように折り返す。空白か日本語の文字の前で折り、折れなければ文字の途中で切る
+const wrapParagraph = (paragraph: string, scale: number, maxWidth: number) => {
+    const lines: string[] = [];
+    let line: string[] = [];
+    // line の中で次の行にできる位置
+    let breakAt = -1;
+
+    Array.from(paragraph).forEach(char => {
+        const previous = line[line.length - 1];
+        if (char === ' ' || !isBundled(char) || (previous !== undefined && !isBundled(previous))) {
+            breakAt = line.length;
+        }
+        line.push(char);
+        if (line.length === 1 || lineWidth(line, scale) <= maxWidth) return;
+
+        const cut = breakAt > 0 ? breakAt : line.length - 1;
+        lines.push(line.slice(0, cut).join('').trimEnd());
+        line = line.slice(cut);
+        while (line[0] === ' ') line.shift();
+        breakAt = -1;
+    });
+    // 最後の行の末尾の空白は並べ方に使っていることがあるので残す
+    lines.push(line.join(''));
+    return lines;
+};
+
+// 改行と折り返しで分けた行
+export const wrapPixelText = (text: string, size: number = 16, maxWidth: number = Infinity) => {
+    const scale = scaleOf(size);
+    return text.split('\n').flatMap(paragraph => wrapParagraph(paragraph, scale, maxWidth));
+};
+
+// 描いたときの幅（いちばん長い行）と高さ（px、縁取りは含めない）
+export const measurePixelText = (text: string, size: number = 16, maxWidth: number = Infinity) => {
+    const scale = scaleOf(size);
+    const lines = wrapPixelText(text, size, maxWidth);
+    return {
+        width: Math.max(...lines.map(line => lineWidth(Array.from(line), scale))),
+        height: (lines.length - 1) * lineHeightOf(scale) + glyphHeightOf(lines.join(''), scale),
+        lines
+    };
+};
+
+/**
+ * 縁取り付きのドット文字を描く。y は行全体の上下の中央、x は align の位置。
+ * 文字は size 以下で最大の8の倍数の大きさに整数倍で拡大するので、どの環境でも同じ見た目になる。
+ * 同梱の文字は色ごとのアトラスから写し、それ以外の文字は wideGlyphs.ts の字形を同じ形に焼いて使う。
+ */
+export const drawPixelText = (
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    x: number,
+    y: number,
+    size: number = 16,
+    color: string = '#FFFFFF',
+    { align = 'center', maxWidth = Infinity }: PixelTextOptions = {}
+) => {
+    const scale = scaleOf(size);
+    const lineHeight = lineHeightOf(scale);
+    const lines = wrapPixelText(text, size, maxWidth);
+    const firstTop = y - ((lines.length - 1) * lineHeight + CELL * scale) / 2;
+
+    const isSmoothed = ctx.imageSmoothingEnabled;
+    ctx.imageSmoothingEnabled = false;
+    lines.forEach((line, row) => {
+        const chars = Array.from(line);
+        const width = lineWidth(chars, scale);
+        let left = Math.round(align === 'left' ? x : align === 'right' ? x - width : x - width / 2);
+        const top = Math.round(firstTop + row * lineHeight);
+        chars.forEach(char => {
+            drawGlyph(ctx, char, left, top, scale, color);
+            left += advanceOf(char, scale);
+        });
+    });
+    ctx.imageSmoothingEnabled = isSmoothed;
+};
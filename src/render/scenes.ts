@@ -0,0 +1,771 @@
+import type { GameState, OrbitJudgement, Star } from '../game/types';
+import {
+    launchTimeLeft,
+    ORBIT_LEAD_BEATS,
+    ORBIT_STAGES,
+    orbitTargetTime,
+    thrustRatio
+} from '../game/simulation';
+import { countdownValue, orbitBeatCount } from '../game/events';
+import { ATMOSPHERE_LAYERS, layerAt } from '../game/flight';
+import type { AtmosphereLayer, RocketPalette } from '../game/catalog';
+import { FIXED_STEP_MS } from '../game/loop';
+import { createRandom, mixSeed } from '../game/random';
+import { drawPixelText } from './pixelText';
+import type { ParticlePool } from '../game/particles';
+import { drawLaunchPad, drawRocket, paintedPalette } from './sprites';
+import { drawClouds, drawParticles } from './particles';
+import { drawCachedLayer, type Layer } from './layerCache';
+import { flashAlpha, isBlinkOn, shakeScale } from './comfort';
+import { messages } from '../i18n/locale';
+import { rocketTopY, UPPER_STAGE_RATIO } from '../game/effects';
+
+// 波打つ地面の一番高いところ（px）
+const GROUND_MAX_HEIGHT = 110;
+
+const groundLayers = new Map<string, Layer | null>();
+const starLayers = new Map<Star[], Layer | null>();
+
+// 打ち上げシーンの波打つ地面
+const drawGround = (ctx: CanvasRenderingContext2D, color: string) => {
+    const { width, height } = ctx.canvas;
+    drawCachedLayer(ctx, groundLayers, `${color}:${width}`, 0, height - GROUND_MAX_HEIGHT, width, GROUND_MAX_HEIGHT, layer => {
+        layer.fillStyle = color;
+        for (let x = 0; x < width; x += 8) {
+            const groundHeight = 100 + Math.sin(x * 0.05) * 10;
+            layer.fillRect(x, GROUND_MAX_HEIGHT - groundHeight, 8, groundHeight);
+        }
+    });
+};
+
+// 対戦では2人分の星を交互に描くので、その数だけ残す
+const MAX_STAR_LAYERS = 2;
+
+// 地上から見える星。星の配置はプレイごとに変わるので、最近描いたものだけ残す
+export const drawStarField = (ctx: CanvasRenderingContext2D, stars: Star[]) => {
+    if (!starLayers.has(stars) && starLayers.size >= MAX_STAR_LAYERS) {
+        const oldest = starLayers.keys().next().value;
+        if (oldest) starLayers.delete(oldest);
+    }
+    const { width, height } = ctx.canvas;
+    drawCachedLayer(ctx, starLayers, stars, 0, 0, width, height, layer => {
+        stars.forEach(star => {
+            layer.fillStyle = `rgba(255, 255, 255, ${star.brightness})`;
+            layer.fillRect(star.x, star.y, star.size, star.size);
+        });
+    });
+};
+
+// 高度の表示（1km 未満は m、それ以上は km）
+export const formatAltitude = (altitude: number) =>
+    altitude < 1000 ? `${Math.floor(altitude)}m` : `${(altitude / 1000).toFixed(1)}km`;
+
+const parseHex = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+const mixHex = (from: string, to: string, t: number) => {
+    const a = parseHex(from);
+    const b = parseHex(to);
+    return `rgb(${a.map((value, i) => Math.round(value + (b[i] - value) * t)).join(', ')})`;
+};
+
+// 高度 altitude の空の色（発射場の層の色を高度で補間する。layers は高度の高い順）
+const skyColorAt = (layers: AtmosphereLayer[], altitude: number) => {
+    const index = layers.findIndex(layer => layer.altitude <= altitude);
+    if (index === 0) return layers[0].color;
+    if (index === -1) return layers[layers.length - 1].color;
+    const top = layers[index - 1];
+    const bottom = layers[index];
+    return mixHex(bottom.color, top.color, (altitude - bottom.altitude) / (top.altitude - bottom.altitude));
+};
+
+// 対流圏を抜けると星が見え始め、中間圏を抜けるとはっきり見える
+const starVisibility = (altitude: number) =>
+    Math.min(Math.max((altitude - ATMOSPHERE_LAYERS[0].top) / (ATMOSPHERE_LAYERS[2].top - ATMOSPHERE_LAYERS[0].top), 0), 1);
+
+// 画面の縦方向に見える高度の幅（高く上るほど広い範囲が見える）
+export const metersPerPixel = (altitude: number, height: number) => (altitude * 0.5 + 4000) / height;
+
+/**
+ * 大気圏シーンの空。画面の各高さの高度から色を決めてグラデーションにし、
+ * 層の境目が画面内にあれば線と高度を描く。
+ */
+const drawSky = (ctx: CanvasRenderingContext2D, state: GameState, rocketY: number) => {
+    const { width, height } = ctx.canvas;
+    const scale = metersPerPixel(state.altitude, height);
+    const altitudeAt = (y: number) => state.altitude + (rocketY - y) * scale;
+
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    const samples = 12;
+    for (let i = 0; i <= samples; i++) {
+        gradient.addColorStop(i / samples, skyColorAt(state.site.layers, Math.max(altitudeAt(height * i / samples), 0)));
+    }
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    ATMOSPHERE_LAYERS.forEach(({ top }) => {
+        if (!Number.isFinite(top)) return;
+        const y = Math.round(rocketY - (top - state.altitude) / scale);
+        if (y < 0 || y > height) return;
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+        for (let x = 0; x < width; x += 16) {
+            ctx.fillRect(x, y, 8, 2);
+        }
+        drawPixelText(ctx, `${top / 1000}KM`, 60, y - 12, 12);
+    });
+};
+
+// 宇宙空間の星（数を減らし、明滅も控えめに）。visibility は 0〜1
+const drawSpaceStars = (ctx: CanvasRenderingContext2D, state: GameState, visibility: number = 1) => {
+    if (visibility <= 0) return;
+    // 足りない分の星はシードから毎フレーム同じ位置に作る
+    const starRandom = createRandom(state.seed);
+    const starCount = 150;
+    for (let i = 0; i < starCount; i++) {
+        const x = (state.stars[i]?.x || starRandom() * ctx.canvas.width);
+        const y = (state.stars[i]?.y || starRandom() * ctx.canvas.height);
+        const brightness = state.stars[i]?.brightness || starRandom();
+
+        // 明滅の頻度を下げ、変化も小さく
+        const flicker = Math.sin(state.time * 0.001 + i) * 0.1 + 0.9;
+
+        if (brightness > 0.8) {
+            ctx.fillStyle = `rgba(255, 255, 255, ${brightness * 0.7 * flicker * visibility})`;
+            ctx.fillRect(x - 1, y, 2, 1);
+            ctx.fillRect(x, y - 1, 1, 2);
+        } else {
+            ctx.fillStyle = `rgba(255, 255, 255, ${brightness * 0.5 * flicker * visibility})`;
+            ctx.fillRect(x, y, 1, 1);
+        }
+    }
+};
+
+const drawPowerScene = (ctx: CanvasRenderingContext2D, state: GameState, particles: ParticlePool, centerX: number, baseY: number) => {
+    const m = messages();
+
+    // 地面
+    ctx.fillStyle = state.site.ground;
+    ctx.fillRect(0, baseY, ctx.canvas.width, ctx.canvas.height - baseY);
+
+    // 発射台を追加
+    drawLaunchPad(ctx, centerX, baseY, state.site.pad);
+
+    // 燃料メーター（縦型）のサイズと位置を調整
+    const meterHeight = ctx.canvas.height * 0.5; // 高さを50%に調整
+    const meterWidth = 40;
+    const meterX = 80;  // 左端からの距離を増加
+    const meterY = (ctx.canvas.height - meterHeight) / 2;  // 縦方向の中央揃え
+
+    // メーターの外枠
+    ctx.fillStyle = '#333333';
+    ctx.fillRect(meterX - 2, meterY - 2, meterWidth + 4, meterHeight + 4);
+
+    // メーターの背景（目盛り）
+    ctx.fillStyle = '#222222';
+    ctx.fillRect(meterX, meterY, meterWidth, meterHeight);
+
+    // 目盛りの描画
+    for (let i = 0; i <= 10; i++) {
+        const y = meterY + (meterHeight * (1 - i / 10));
+        ctx.fillStyle = '#444444';
+        ctx.fillRect(meterX - 10, y, 10, 2);
+
+        // 目盛りの数値（位置調整）
+        drawPixelText(ctx, `${i * 10}`, meterX - 25, y, 12);
+    }
+
+    // 燃料レベル（下から上に向かって満タンになる）
+    const fuelHeight = meterHeight * (state.power / 100);
+    const gradient = ctx.createLinearGradient(0, meterY + meterHeight - fuelHeight, 0, meterY + meterHeight);
+    gradient.addColorStop(0, '#FF4400');
+    gradient.addColorStop(0.5, '#FF8800');
+    gradient.addColorStop(1, '#FFCC00');
+
+    ctx.fillStyle = gradient;
+    ctx.fillRect(
+        meterX,
+        meterY + meterHeight - fuelHeight,
+        meterWidth,
+        fuelHeight
+    );
+
+    // ロケット
+    drawRocket(ctx, centerX, baseY + rocketTopY(state), state.time, state.rocket);
+
+    // パワー表示テキストを条件分岐
+    if (state.isFullPower) {
+        // フルパワー時の点滅テキスト（画面中央に大きく）
+        if (isBlinkOn(state.time, 200)) {  // 点滅を早く
+            drawPixelText(
+                ctx,
+                m.power.fullyCharged,
+                centerX,
+                ctx.canvas.height * 0.4,  // 画面の上部40%の位置
+                48  // さらに大きく
+            );
+            drawPixelText(
+                ctx,
+                m.power.prepareToLaunch,
+                centerX,
+                ctx.canvas.height * 0.4 + 60,  // その下に
+                32
+            );
+        }
+
+        // カウントダウン表示（さらに大きく）
+        const remainingTime = countdownValue(state);
+        if (remainingTime !== null) {
+            drawPixelText(
+                ctx,
+                remainingTime.toString(),
+                centerX,
+                ctx.canvas.height * 0.6,  // 画面の下部60%の位置
+                96  // かなり大きく
+            );
+        }
+    } else {
+        // 通常時のテキスト（メーター横）
+        drawPixelText(
+            ctx,
+            m.power.fuel(Math.floor(state.power)),
+            meterX + meterWidth / 2,
+            meterY - 40
+        );
+        drawPixelText(
+            ctx,
+            m.power.mash,
+            meterX + meterWidth / 2,
+            meterY - 70
+        );
+    }
+
+    // 警告表示（フルパワー時は表示しない）
+    if (state.power >= 80 && !state.isFullPower) {
+        if (isBlinkOn(state.time, 500)) {
+            drawPixelText(
+                ctx,
+                m.power.warning,
+                meterX + meterWidth / 2,
+                meterY + meterHeight + 40,
+                20
+            );
+
+            ctx.fillStyle = '#FF0000';
+            ctx.fillRect(
+                meterX - 10,
+                meterY + meterHeight + 60,
+                meterWidth + 20,
+                4
+            );
+        }
+    }
+
+    // フルパワー時のエフェクト
+    if (state.isFullPower) {
+        // 画面全体を明滅させる
+        if (isBlinkOn(state.time, 200)) {
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+            ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        }
+
+        // エネルギーパーティクル
+        drawParticles(ctx, particles, { x: centerX, y: baseY });
+    }
+};
+
+const drawLaunchScene = (
+    ctx: CanvasRenderingContext2D,
+    state: GameState,
+    particles: ParticlePool,
+    centerX: number,
+    baseY: number,
+    random: () => number
+) => {
+    const m = messages();
+
+    // 画面の揺れエフェクト
+    if (state.isLaunching && state.shakeIntensity > 0) {
+        ctx.save();
+        const shake = state.shakeIntensity * shakeScale();
+        ctx.translate(
+            random() * shake * 2 - shake,
+            random() * shake * 2 - shake
+        );
+    }
+
+    // 流れる雲
+    drawClouds(ctx, state.clouds, state.time);
+
+    // 地面の描画
+    drawGround(ctx, state.site.ground);
+
+    // 発射台
+    drawLaunchPad(ctx, centerX, baseY, state.site.pad);
+
+    if (state.isLaunching) {
+        // 煙・炎・火花（ロケットの噴射口から放出されたもの）
+        drawParticles(ctx, particles, { x: centerX, y: baseY });
+
+        // ロケットを煙の前に描画
+        drawRocket(ctx, centerX, baseY + rocketTopY(state), state.time, state.rocket);
+    } else {
+        // 発射前のロケット
+        drawRocket(ctx, centerX, baseY + rocketTopY(state), state.time, state.rocket);
+    }
+
+    // カウントダウンと発射シーケンス
+    const number = countdownValue(state);
+
+    if (number !== null) {
+        // カウントダウン表示
+        drawPixelText(
+            ctx,
+            number.toString(),
+            centerX,
+            ctx.canvas.height * 0.4,
+            96
+        );
+    } else if (!state.isLaunching) {
+        // 発射開始
+        if (isBlinkOn(state.time, 200)) {
+            drawPixelText(
+                ctx,
+                m.launch.launch,
+                centerX,
+                ctx.canvas.height * 0.4,
+                64
+            );
+        }
+    }
+
+    // 情報表示をより詳細に
+    drawPixelText(
+        ctx,
+        m.launch.height(formatAltitude(state.altitude)),
+        centerX,
+        36
+    );
+    drawPixelText(
+        ctx,
+        m.launch.keepMashing,
+        centerX,
+        62
+    );
+
+    // パワー表示（揺れの強さに応じて）
+    const powerWidth = 200;
+    const powerHeight = 20;
+    const powerX = centerX - powerWidth / 2;
+    const powerY = 84;
+
+    // パワーゲージの背景
+    ctx.fillStyle = '#333333';
+    ctx.fillRect(powerX - 2, powerY - 2, powerWidth + 4, powerHeight + 4);
+
+    // パワーゲージ（揺れの強さに応じて色が変化）
+    const powerRatio = thrustRatio(state);
+    const gradient = ctx.createLinearGradient(powerX, 0, powerX + powerWidth * powerRatio, 0);
+    gradient.addColorStop(0, '#FFFF00');
+    gradient.addColorStop(1, '#FF4400');
+
+    ctx.fillStyle = gradient;
+    ctx.fillRect(powerX, powerY, powerWidth * powerRatio, powerHeight);
+
+    // 残り時間
+    drawPixelText(
+        ctx,
+        m.launch.timeLeft((launchTimeLeft(state) / 1000).toFixed(1)),
+        centerX,
+        powerY + 66,
+        state.isFailed ? 24 : 16
+    );
+
+    // 警告表示（パワーが高いとき）
+    if (powerRatio > 0.8) {
+        if (isBlinkOn(state.time, 200)) {
+            drawPixelText(
+                ctx,
+                m.launch.maxPower,
+                centerX,
+                powerY + 40,
+                24
+            );
+        }
+    }
+
+    // 画面の揺れをリセット
+    if (state.isLaunching && state.shakeIntensity > 0) {
+        ctx.restore();
+    }
+
+    // 時間切れ
+    if (state.isFailed && isBlinkOn(state.time, 300)) {
+        drawPixelText(
+            ctx,
+            m.launch.failed,
+            centerX,
+            ctx.canvas.height * 0.4,
+            64
+        );
+    }
+
+    // Launch Success の表示
+    if (state.isLaunchSuccess) {
+        // 画面全体を明るくフラッシュ
+        ctx.fillStyle = `rgba(255, 255, 255, ${flashAlpha(state.time, random)})`;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+        // Launch Success テキスト
+        if (isBlinkOn(state.time, 100)) {  // 早い点滅
+            drawPixelText(
+                ctx,
+                m.launch.success,
+                centerX,
+                ctx.canvas.height * 0.4,
+                48
+            );
+        }
+    }
+};
+
+const drawAtmosphereScene = (
+    ctx: CanvasRenderingContext2D,
+    state: GameState,
+    particles: ParticlePool,
+    centerX: number,
+    baseY: number,
+    random: () => number
+) => {
+    const m = messages();
+    const timeSinceStart = state.time - state.atmosphereStartTime;
+
+    if (timeSinceStart < state.config.countdownMs) {
+        // 最初の3秒は地上の背景を維持
+        ctx.fillStyle = state.site.sky;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+        // 流れる雲
+        drawClouds(ctx, state.clouds, state.time);
+
+        // 地面の描画
+        drawGround(ctx, state.site.ground);
+
+        // 煙と炎のエフェクト
+        drawParticles(ctx, particles, { x: centerX, y: baseY });
+
+        // ロケットを描画
+        drawRocket(ctx, centerX, baseY + rocketTopY(state), state.time, state.rocket);
+
+        // Launch Success の表示
+        // 画面全体を明るくフラッシュ
+        ctx.fillStyle = `rgba(255, 255, 255, ${flashAlpha(state.time, random)})`;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+        if (timeSinceStart < state.config.countdownMs / 2) {  // 前半はLaunch Success
+            if (isBlinkOn(state.time, 100)) {  // 早い点滅
+                drawPixelText(
+                    ctx,
+                    m.launch.success,
+                    centerX,
+                    ctx.canvas.height * 0.5,  // 完全に中央に
+                    48
+                );
+            }
+        } else {  // 後半はカウントダウン
+            const countdown = Math.ceil((state.config.countdownMs - timeSinceStart) / 1000);
+
+            if (isBlinkOn(state.time, 200)) {
+                drawPixelText(
+                    ctx,
+                    m.atmosphere.prepareFor,
+                    centerX,
+                    ctx.canvas.height * 0.4,
+                    32
+                );
+
+                drawPixelText(
+                    ctx,
+                    m.atmosphere.atmosphereBreak,
+                    centerX,
+                    ctx.canvas.height * 0.4 + 50,
+                    32
+                );
+
+                drawPixelText(
+                    ctx,
+                    countdown.toString(),
+                    centerX,
+                    ctx.canvas.height * 0.6,
+                    96
+                );
+            }
+        }
+    } else {
+        // ロケットは上昇するにつれて画面の下から中ほどへ移動する
+        const startY = ctx.canvas.height * 0.7;
+        const targetY = ctx.canvas.height * 0.4;
+        const progress = Math.min(state.altitude / ATMOSPHERE_LAYERS[0].top, 1);
+        const rocketY = startY + (targetY - startY) * progress;
+
+        drawSky(ctx, state, rocketY);
+        drawSpaceStars(ctx, state, starVisibility(state.altitude));
+
+        // カメラはロケットを追いかけるので、雲と排気はロケットの上昇分だけ下に流れる
+        const cameraY = rocketY - rocketTopY(state);
+        drawClouds(ctx, state.clouds, state.time, cameraY - baseY);
+        drawParticles(ctx, particles, { x: centerX, y: cameraY });
+
+        // ロケットを描画（新しい位置で）
+        drawRocket(ctx, centerX, rocketY, state.time, state.rocket);
+
+        // 情報表示
+        drawPixelText(
+            ctx,
+            m.atmosphere.status(formatAltitude(state.altitude), Math.round(state.velocity)),
+            centerX,
+            50
+        );
+        drawPixelText(
+            ctx,
+            m.layers[layerAt(state.altitude)],
+            centerX,
+            90
+        );
+        drawPixelText(
+            ctx,
+            m.launch.keepMashing,
+            centerX,
+            130
+        );
+    }
+};
+
+// フェアリングを外したあとに見える衛星の色
+const PAYLOAD_COLOR = '#FFDD55';
+// 判定の表示を残す時間（ms）
+const JUDGEMENT_DISPLAY_MS = 600;
+// 切り離した部品が見えなくなるまでの時間（ms）
+const DEBRIS_LIFE_MS = 3000;
+
+const judgementLabel = ({ offsetMs, accuracy }: OrbitJudgement) => {
+    const m = messages();
+    if (offsetMs === null) return m.orbit.miss;
+    if (accuracy >= 0.85) return m.orbit.perfect;
+    return accuracy >= 0.5 ? m.orbit.great(offsetMs < 0) : m.orbit.good(offsetMs < 0);
+};
+
+const judgementColor = ({ offsetMs, accuracy }: OrbitJudgement) => {
+    if (offsetMs === null) return '#FF4444';
+    return accuracy >= 0.5 ? '#FFDD00' : '#FFFFFF';
+};
+
+// 地球の縁（画面下に大きな円弧と大気の光）
+const drawEarthLimb = (ctx: CanvasRenderingContext2D, state: GameState, centerX: number) => {
+    const { width, height } = ctx.canvas;
+    const radius = width * 1.5;
+    // 地球がゆっくり回って見えるように縁の高さを少しずつ変える
+    const horizonY = height * 0.8 + Math.sin((state.time - state.orbitStartTime) * 0.0003) * 6;
+    const centerY = horizonY + radius;
+
+    const glow = state.site.layers[4];
+    ctx.fillStyle = glow.mixColor;
+    ctx.globalAlpha = 0.4;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius + 12, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 1.0;
+
+    ctx.fillStyle = glow.color;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius + 4, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = '#1C4E9A';
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    // 陸地の帯
+    ctx.fillStyle = state.site.ground;
+    for (let x = 0; x < width; x += 8) {
+        const land = Math.sin(x * 0.01 + state.time * 0.0002) + Math.sin(x * 0.023);
+        if (land > 0.6) {
+            const dy = radius - Math.sqrt(Math.max(radius * radius - (x - centerX) * (x - centerX), 0));
+            ctx.fillRect(x, horizonY + dy + 10, 8, 8);
+        }
+    }
+};
+
+// 切り離した下段とフェアリングが離れていく様子
+const drawDebris = (
+    ctx: CanvasRenderingContext2D,
+    state: GameState,
+    palette: RocketPalette,
+    centerX: number,
+    rocketScreenY: number
+) => {
+    const { rocket } = state;
+    const [separation, fairing] = state.orbitJudgements;
+
+    const drawPiece = (x: number, y: number, angle: number, alpha: number, draw: () => void) => {
+        ctx.save();
+        ctx.globalAlpha = alpha;
+        ctx.translate(x, y);
+        ctx.rotate(angle);
+        draw();
+        ctx.restore();
+    };
+
+    if (separation) {
+        const t = state.time - separation.time;
+        if (t < DEBRIS_LIFE_MS) {
+            const stageHeight = rocket.height * (1 - UPPER_STAGE_RATIO);
+            const y = rocketScreenY + rocket.height * UPPER_STAGE_RATIO + stageHeight / 2 + 4 + t * 0.06 + t * t * 0.00002;
+            drawPiece(centerX + t * 0.01, y, t * 0.0008, 1 - t / DEBRIS_LIFE_MS, () => {
+                ctx.fillStyle = palette.body;
+                ctx.fillRect(-rocket.width / 2, -stageHeight / 2, rocket.width, stageHeight);
+                ctx.fillStyle = palette.fins;
+                ctx.fillRect(-rocket.width * 3 / 4, stageHeight / 2 - rocket.height / 4, rocket.width / 4, rocket.height / 4);
+                ctx.fillRect(rocket.width / 2, stageHeight / 2 - rocket.height / 4, rocket.width / 4, rocket.height / 4);
+            });
+        }
+    }
+
+    if (fairing) {
+        const t = state.time - fairing.time;
+        if (t < DEBRIS_LIFE_MS) {
+            const halfWidth = rocket.width * 3 / 8;
+            const y = rocketScreenY - rocket.width / 4 + t * 0.02;
+            [-1, 1].forEach(side => {
+                drawPiece(centerX + side * (halfWidth / 2 + t * 0.08), y, side * t * 0.003, 1 - t / DEBRIS_LIFE_MS, () => {
+                    ctx.fillStyle = palette.nose;
+                    ctx.fillRect(-halfWidth / 2, -rocket.width / 4, halfWidth, rocket.width / 2);
+                });
+            });
+        }
+    }
+};
+
+// 次の操作までの拍を、縮んでいく輪で示す
+const drawTimingRing = (ctx: CanvasRenderingContext2D, state: GameState, centerX: number, y: number) => {
+    const index = state.orbitJudgements.length;
+    const { orbitBeatMs, orbitWindowMs } = state.config;
+    const untilTarget = orbitTargetTime(state, index) - state.time;
+    const isInWindow = Math.abs(untilTarget) <= orbitWindowMs;
+    const targetRadius = 24;
+
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = isInWindow ? '#FFDD00' : '#FFFFFF';
+    ctx.beginPath();
+    ctx.arc(centerX, y, targetRadius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // 1拍前から縮み始めて、目標の時刻にちょうど重なる
+    if (untilTarget > 0 && untilTarget < orbitBeatMs) {
+        ctx.strokeStyle = 'rgba(255, 221, 0, 0.8)';
+        ctx.beginPath();
+        ctx.arc(centerX, y, targetRadius + (untilTarget / orbitBeatMs) * 96, 0, Math.PI * 2);
+        ctx.stroke();
+    }
+    ctx.lineWidth = 1;
+};
+
+// 判定済みの操作を3つの四角で示す
+const drawStageProgress = (ctx: CanvasRenderingContext2D, state: GameState, centerX: number, y: number) => {
+    ORBIT_STAGES.forEach((_, i) => {
+        const judgement = state.orbitJudgements[i];
+        const x = centerX + (i - 1) * 32 - 8;
+        ctx.fillStyle = '#333333';
+        ctx.fillRect(x - 2, y - 2, 20, 20);
+        ctx.fillStyle = judgement ? judgementColor(judgement) : '#111111';
+        ctx.fillRect(x, y, 16, 16);
+    });
+};
+
+const drawOrbitScene = (ctx: CanvasRenderingContext2D, state: GameState, particles: ParticlePool, centerX: number) => {
+    const { rocket } = state;
+    const canvas = ctx.canvas;
+    const m = messages();
+
+    ctx.fillStyle = state.site.space;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawSpaceStars(ctx, state);
+    drawEarthLimb(ctx, state, centerX);
+
+    // ロケットは画面の中ほどに固定し、排気だけが後ろへ流れる
+    const rocketScreenY = canvas.height * 0.4;
+    // 切り離した部品も機体と同じ配色にする。フェアリングを外した後の先端は積み荷の色
+    const palette = paintedPalette(rocket);
+    drawParticles(ctx, particles, { x: centerX, y: rocketScreenY - rocketTopY(state) });
+    drawDebris(ctx, state, palette, centerX, rocketScreenY);
+
+    const [separation, fairing] = state.orbitJudgements;
+    drawRocket(
+        ctx,
+        centerX,
+        rocketScreenY,
+        state.time,
+        { ...rocket, height: separation ? rocket.height * UPPER_STAGE_RATIO : rocket.height },
+        fairing ? { ...palette, nose: PAYLOAD_COLOR } : palette
+    );
+
+    drawPixelText(ctx, m.orbit.title, centerX, 50);
+    drawStageProgress(ctx, state, centerX, 80);
+
+    const index = state.orbitJudgements.length;
+    if (index < ORBIT_STAGES.length && !state.isFailed) {
+        drawPixelText(ctx, m.orbit.stages[ORBIT_STAGES[index]], centerX, 140, 24);
+        drawPixelText(ctx, m.orbit.pressOnBeat, centerX, 175, 16);
+        drawTimingRing(ctx, state, centerX, canvas.height * 0.72);
+
+        // 最初の操作までは拍に合わせて数える
+        const beat = orbitBeatCount(state);
+        if (beat < ORBIT_LEAD_BEATS) {
+            drawPixelText(ctx, `${ORBIT_LEAD_BEATS - beat}`, centerX, canvas.height * 0.72, 32);
+        }
+    }
+
+    const last = state.orbitJudgements[index - 1];
+    if (last && state.time - last.time < JUDGEMENT_DISPLAY_MS) {
+        drawPixelText(ctx, judgementLabel(last), centerX + 160, rocketScreenY + rocket.height / 2, 24, judgementColor(last));
+    }
+
+    if (state.isExploded) {
+        drawPixelText(ctx, m.orbit.achieved, centerX, canvas.height / 2, 48, '#FFDD00');
+    } else if (state.isFailed && isBlinkOn(state.time, 300)) {
+        drawPixelText(ctx, m.orbit.failed, centerX, canvas.height / 2, 48, '#FF4444');
+    }
+};
+
+// 1フレーム分の描画
+export const renderFrame = (ctx: CanvasRenderingContext2D, state: GameState, particles: ParticlePool) => {
+    const canvas = ctx.canvas;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // 背景（夜空）
+    ctx.fillStyle = state.site.sky;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // 星の描画
+    drawStarField(ctx, state.stars);
+
+    const centerX = canvas.width / 2;
+    const baseY = canvas.height - 100;
+    // 揺れやフラッシュもシードとステップ数から決め、リプレイで同じ絵になるようにする
+    const random = createRandom(mixSeed(state.seed, Math.floor(state.time / FIXED_STEP_MS)));
+
+    // シーンごとの描画
+    switch (state.scene) {
+        case 'power':
+            drawPowerScene(ctx, state, particles, centerX, baseY);
+            break;
+        case 'launch':
+            drawLaunchScene(ctx, state, particles, centerX, baseY, random);
+            break;
+        case 'atmosphere':
+            drawAtmosphereScene(ctx, state, particles, centerX, baseY, random);
+            break;
+        case 'orbit':
+            drawOrbitScene(ctx, state, particles, centerX);
+            break;
+    }
+};
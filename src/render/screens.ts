@@ -0,0 +1,744 @@
+import { interpolateState } from '../game/simulation';
+import {
+    ACCESSIBILITY_ROWS,
+    isRankIn,
+    PAUSE_MENU_ITEMS,
+    RESULT_INPUT_DELAY_MS,
+    SELECT_INPUT_DELAY_MS,
+    type Session
+} from '../game/lifecycle';
+import { rocketTopY } from '../game/effects';
+import type { ScoreSummary } from '../game/scoring';
+import { entriesFor, INITIALS_LENGTH, type BestFlags } from '../game/leaderboard';
+import { CONFIG_FIELDS, configFor } from '../game/config';
+import { ROCKETS } from '../game/catalog';
+import {
+    ACHIEVEMENT_IDS,
+    ACHIEVEMENT_PAINTS,
+    paintPalette,
+    ROCKET_PAINTS,
+    TOAST_MS,
+    type AchievementToast
+} from '../game/achievements';
+import { drawPixelText } from './pixelText';
+import { drawLaunchPad, drawRocket, setRocketPaint } from './sprites';
+import { drawClouds } from './particles';
+import { drawStarField, formatAltitude, renderFrame } from './scenes';
+import { createViewCanvas } from './viewport';
+import type { PlayerIndex, Versus } from '../game/versus';
+import { isHost, rankStandings } from '../game/online';
+import { drawGhosts } from './ghosts';
+import { isBlinkOn, isMotionReduced, setComfortSettings } from './comfort';
+import { messages, messagesFor, nextLocale, setLocale } from '../i18n/locale';
+
+// 選ばれた発射場に立つロケット（タイトルと選択画面の背景）
+const drawLaunchSite = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { state, screenTime } = session;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const baseY = canvas.height - 100;
+
+    // 背景（夜空）
+    ctx.fillStyle = state.site.sky;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawStarField(ctx, state.stars);
+
+    drawClouds(ctx, state.clouds, screenTime);
+
+    // 地面
+    ctx.fillStyle = state.site.ground;
+    ctx.fillRect(0, baseY, canvas.width, canvas.height - baseY);
+
+    drawLaunchPad(ctx, centerX, baseY, state.site.pad);
+    drawRocket(ctx, centerX, baseY + rocketTopY(state), screenTime, state.rocket);
+};
+
+const drawTitleScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { screenTime } = session;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const m = messages();
+
+    drawLaunchSite(ctx, session);
+
+    drawPixelText(ctx, m.title.name, centerX, canvas.height * 0.25, 48);
+    drawPixelText(ctx, m.title.tagline, centerX, canvas.height * 0.25 + 60, 16);
+
+    if (isBlinkOn(screenTime, 500)) {
+        drawPixelText(ctx, m.title.start, centerX, canvas.height * 0.45, 24);
+    }
+    drawPixelText(ctx, m.title.highScores, centerX, canvas.height * 0.45 + 50, 16);
+    drawPixelText(
+        ctx,
+        m.title.settings(m.presets[session.difficulty.preset]),
+        centerX,
+        canvas.height * 0.45 + 80,
+        16
+    );
+    drawPixelText(ctx, m.title.replay, centerX, canvas.height * 0.45 + 110, 16);
+    drawPixelText(ctx, m.title.versus, centerX, canvas.height * 0.45 + 140, 16);
+    // 切り替え先の言語名はその言語で書く
+    drawPixelText(
+        ctx,
+        m.title.options(messagesFor(nextLocale(session.locale)).languageName),
+        centerX,
+        canvas.height * 0.45 + 170,
+        16
+    );
+};
+
+const formatSeconds = (ms: number | null) => (ms === null ? '--.-s' : `${(ms / 1000).toFixed(1)}s`);
+
+const HIGHLIGHT_COLOR = '#FFDD00';
+
+// シーンごとの内訳とランク。自己ベストを更新した項目は色を変える
+const drawScoreBreakdown = (
+    ctx: CanvasRenderingContext2D,
+    result: ScoreSummary,
+    bests: BestFlags | null,
+    centerX: number,
+    top: number
+) => {
+    const { power, launch, atmosphere, orbit } = result.scenes;
+    const m = messages();
+    const accuracy = result.orbitAccuracy === null ? '--%' : `${Math.round(result.orbitAccuracy * 100)}%`;
+    const heading = (label: string) => label.padEnd(6, ' ');
+    const rows: [string, boolean][] = [
+        [
+            `${heading(m.result.scenes.power)} ${m.result.taps(power.presses)}  ${formatSeconds(result.chargeTime)}  ${m.result.peak(power.peakTps)}  ${power.points}`,
+            bests?.chargeTime ?? false
+        ],
+        [
+            `${heading(m.result.scenes.launch)} ${m.result.taps(launch.presses)}  ${formatSeconds(result.maxShakeTime)}  ${m.result.peak(launch.peakTps)}  ${launch.points}`,
+            bests?.maxShakeTime ?? false
+        ],
+        [
+            `${heading(m.result.scenes.atmosphere)} ${m.result.taps(atmosphere.presses)}  ${formatAltitude(result.altitude)}  ${m.result.peak(atmosphere.peakTps)}  ${atmosphere.points}`,
+            bests?.altitude ?? false
+        ],
+        [`${heading(m.result.scenes.orbit)} ${m.result.taps(orbit.presses)}  ${m.result.accuracy(accuracy)}  ${orbit.points}`, false]
+    ];
+
+    rows.forEach(([row, isBest], i) => {
+        drawPixelText(ctx, isBest ? `${row} ${m.result.newBest}` : row, centerX, top + i * 26, 16, isBest ? HIGHLIGHT_COLOR : undefined);
+    });
+
+    const scoreY = top + rows.length * 26 + 20;
+    drawPixelText(ctx, m.result.score(result.total), centerX, scoreY, 32, bests?.score ? HIGHLIGHT_COLOR : undefined);
+    if (bests?.score) {
+        drawPixelText(ctx, m.result.newPersonalBest, centerX, scoreY + 30, 16, HIGHLIGHT_COLOR);
+    }
+    drawPixelText(ctx, m.result.rank(result.rank), centerX, scoreY + 76, 48);
+    if (result.inputMode !== 'mash') {
+        drawPixelText(ctx, m.result.assist(m.inputModes[result.inputMode]), centerX + 200, scoreY + 76, 16, HIGHLIGHT_COLOR);
+    }
+
+    if (!result.ranked) {
+        const reasons = result.unrankedReasons.map(reason => m.result.unrankedReasons[reason]).join(' / ');
+        drawPixelText(ctx, m.result.unranked(reasons), centerX, scoreY + 116, 16, '#FF4444');
+    }
+};
+
+const drawResultScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { state, screenTime } = session;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const m = messages();
+
+    // 最後のプレイ画面を暗くして背景にする
+    renderFrame(ctx, state, session.effects.pool);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawPixelText(
+        ctx,
+        state.isExploded ? m.result.complete : m.result.failed,
+        centerX,
+        canvas.height * 0.1,
+        40
+    );
+
+    if (session.playback) {
+        drawPixelText(ctx, m.result.replay, centerX, canvas.height * 0.1 + 40, 20, HIGHLIGHT_COLOR);
+    }
+
+    const { result } = session;
+    if (result) {
+        drawScoreBreakdown(ctx, result, session.newBests, centerX, canvas.height * 0.1 + 70);
+    }
+
+    if (screenTime >= RESULT_INPUT_DELAY_MS && isBlinkOn(screenTime, 500)) {
+        drawPixelText(ctx, isRankIn(session) ? m.result.enterName : m.result.retry, centerX, canvas.height * 0.82, 20);
+        drawPixelText(ctx, m.common.escTitle, centerX, canvas.height * 0.82 + 30, 20);
+        if (session.replay) {
+            drawPixelText(ctx, m.result.saveReplay, centerX, canvas.height * 0.82 + 58, 16);
+        }
+        drawPixelText(ctx, m.result.capture, centerX, canvas.height * 0.82 + 80, 16);
+    }
+};
+
+// 保存する結果画面の画像の下に重ねる帯の高さ（画面下の案内を隠す）
+const SCREENSHOT_BANNER_HEIGHT = 110;
+
+// 結果画面の画像にスコアとゲーム名・日付の帯を重ねる
+export const drawScreenshotBanner = (ctx: CanvasRenderingContext2D, result: ScoreSummary, takenAt: number) => {
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height - SCREENSHOT_BANNER_HEIGHT;
+    const m = messages();
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, top, canvas.width, SCREENSHOT_BANNER_HEIGHT);
+    ctx.fillStyle = HIGHLIGHT_COLOR;
+    ctx.fillRect(0, top, canvas.width, 4);
+    drawPixelText(ctx, m.result.shareScore(result.total, result.rank), centerX, top + 42, 32, HIGHLIGHT_COLOR);
+    drawPixelText(ctx, `${m.appTitle}  ${formatDate(takenAt)}`, centerX, top + 82, 16);
+};
+
+// レトロなイニシャル入力画面
+const drawNameEntryScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { nameEntry, screenTime } = session;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const letterY = canvas.height * 0.45;
+    const spacing = 72;
+    const m = messages();
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawPixelText(ctx, m.nameEntry.title, centerX, canvas.height * 0.2, 40, HIGHLIGHT_COLOR);
+    drawPixelText(ctx, m.nameEntry.prompt, centerX, canvas.height * 0.2 + 60, 20);
+
+    for (let i = 0; i < INITIALS_LENGTH; i++) {
+        const x = centerX + (i - (INITIALS_LENGTH - 1) / 2) * spacing;
+        const isActive = i === nameEntry.cursor;
+
+        drawPixelText(ctx, nameEntry.letters[i], x, letterY, 48, isActive ? HIGHLIGHT_COLOR : undefined);
+
+        // カーソル位置の下線を点滅させる
+        if (!isActive || isBlinkOn(screenTime, 250)) {
+            ctx.fillStyle = isActive ? HIGHLIGHT_COLOR : '#666666';
+            ctx.fillRect(x - 24, letterY + 36, 48, 6);
+        }
+    }
+
+    drawPixelText(ctx, m.nameEntry.help, centerX, canvas.height * 0.7, 16);
+    drawPixelText(ctx, m.nameEntry.confirm, centerX, canvas.height * 0.7 + 36, 16);
+};
+
+const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+};
+
+// ローカルのハイスコア表
+const drawLeaderboardScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { leaderboard, leaderboardMode, highlightIndex, screenTime } = session;
+    const entries = entriesFor(leaderboard, leaderboardMode);
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.2;
+    const m = messages();
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawPixelText(ctx, m.leaderboard.title, centerX, canvas.height * 0.1, 40);
+    // 補助入力の記録は連打とは別のランキングに並ぶ
+    drawPixelText(ctx, `< ${m.inputModes[leaderboardMode]} >`, centerX, canvas.height * 0.1 + 34, 16, HIGHLIGHT_COLOR);
+
+    if (entries.length === 0) {
+        drawPixelText(ctx, m.leaderboard.empty, centerX, top + 60, 20);
+    }
+
+    entries.forEach((entry, i) => {
+        const isNew = i === highlightIndex;
+        // 今回の記録は点滅させる
+        if (isNew && !isBlinkOn(screenTime, 300)) return;
+
+        const row = [
+            `${i + 1}`.padStart(2, ' '),
+            entry.initials,
+            `${entry.score}`.padStart(6, ' '),
+            entry.rank,
+            m.presets[entry.preset].padEnd(6, ' '),
+            formatAltitude(entry.altitude).padStart(7, ' '),
+            formatDate(entry.timestamp)
+        ].join('  ');
+        drawPixelText(ctx, row, centerX, top + i * 32, 16, isNew ? HIGHLIGHT_COLOR : undefined);
+    });
+
+    drawPixelText(ctx, m.leaderboard.help, centerX, canvas.height * 0.9, 16);
+};
+
+const formatRatio = (value: number) => `x${value.toFixed(2)}`;
+
+// 発射前にロケットと発射場を選ぶ画面
+const drawSelectScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { state, selectCursor, screenTime, achievements } = session;
+    const { rocket, site } = state;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.15;
+    const m = messages();
+
+    drawLaunchSite(ctx, session);
+
+    drawPixelText(ctx, m.select.title, centerX, top, 32);
+    drawPixelText(
+        ctx,
+        m.select.rocket(rocket.name),
+        centerX,
+        top + 60,
+        20,
+        selectCursor === 0 ? HIGHLIGHT_COLOR : undefined
+    );
+    drawPixelText(
+        ctx,
+        m.select.site(m.sites[site.id]),
+        centerX,
+        top + 96,
+        20,
+        selectCursor === 1 ? HIGHLIGHT_COLOR : undefined
+    );
+    drawPixelText(
+        ctx,
+        m.select.paint(m.achievements.paints[achievements.paint]),
+        centerX,
+        top + 132,
+        20,
+        selectCursor === 2 ? HIGHLIGHT_COLOR : undefined
+    );
+
+    drawPixelText(
+        ctx,
+        m.select.stats(rocket.fuelCapacity, formatRatio(rocket.thrustPerPress)),
+        centerX,
+        top + 176,
+        16
+    );
+    drawPixelText(
+        ctx,
+        m.select.handling(formatRatio(rocket.shakeThreshold), rocket.mass, rocket.drag.toFixed(1)),
+        centerX,
+        top + 202,
+        16
+    );
+    const unlockedCount = ACHIEVEMENT_IDS.filter(id => achievements.unlocked[id] !== undefined).length;
+    drawPixelText(ctx, m.select.achievements(unlockedCount, ACHIEVEMENT_IDS.length), centerX, top + 228, 16);
+
+    if (screenTime >= SELECT_INPUT_DELAY_MS && isBlinkOn(screenTime, 500)) {
+        drawPixelText(ctx, m.select.launch, centerX, top + 272, 24);
+    }
+    drawPixelText(ctx, m.common.changeHelp, centerX, top + 312, 12);
+};
+
+// プレイ画面の左上の一時停止ボタン（論理解像度の座標）
+export const PAUSE_BUTTON = { x: 12, y: 12, size: 36 };
+
+export const isOnPauseButton = ({ x, y }: { x: number; y: number }) =>
+    x >= PAUSE_BUTTON.x && x < PAUSE_BUTTON.x + PAUSE_BUTTON.size &&
+    y >= PAUSE_BUTTON.y && y < PAUSE_BUTTON.y + PAUSE_BUTTON.size;
+
+const drawPauseButton = (ctx: CanvasRenderingContext2D) => {
+    const { x, y, size } = PAUSE_BUTTON;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(x, y, size, size);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(x + size / 4, y + size / 4, size / 6, size / 2);
+    ctx.fillRect(x + size * 7 / 12, y + size / 4, size / 6, size / 2);
+};
+
+// 一時停止中はプレイ画面を暗くしてメニューを重ねる
+const drawPauseMenu = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { pauseMenu } = session;
+    if (!pauseMenu) return;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.3;
+    const m = messages();
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawPixelText(ctx, m.pause.title, centerX, top, 40);
+    PAUSE_MENU_ITEMS.forEach((item, i) => {
+        const isSelected = i === pauseMenu.cursor;
+        const label = isSelected ? `> ${m.pause.items[item]} <` : m.pause.items[item];
+        drawPixelText(ctx, label, centerX, top + 80 + i * 40, 20, isSelected ? HIGHLIGHT_COLOR : undefined);
+    });
+    drawPixelText(ctx, m.pause.help, centerX, canvas.height * 0.85, 12);
+};
+
+// 対戦の各プレイヤーの画面は縦横2倍の大きさで描き、半分に縮めて左右に並べる
+const VERSUS_VIEW_SCALE = 2;
+const VERSUS_KEYS = ['A', 'L'];
+const versusViews: CanvasRenderingContext2D[] = [];
+
+const versusView = (index: PlayerIndex, width: number, height: number) => {
+    if (!versusViews[index]) {
+        const ctx = createViewCanvas(width, height).getContext('2d');
+        if (!ctx) return null;
+        versusViews[index] = ctx;
+    }
+    return versusViews[index];
+};
+
+const versusOutcome = (versus: Versus, index: PlayerIndex) => {
+    const m = messages();
+    if (versus.winner === 'draw') return m.versus.draw;
+    return versus.winner === index ? m.versus.win : m.versus.lose;
+};
+
+// 2人対戦のプレイ画面
+const drawVersusScreen = (ctx: CanvasRenderingContext2D, session: Session, alpha: number) => {
+    const { versus } = session;
+    if (!versus) return;
+    const canvas = ctx.canvas;
+    const halfWidth = canvas.width / 2;
+
+    versus.players.forEach((player, i) => {
+        const index = i as PlayerIndex;
+        const view = versusView(index, halfWidth * VERSUS_VIEW_SCALE, canvas.height * VERSUS_VIEW_SCALE);
+        if (!view) return;
+        const viewCenterX = view.canvas.width / 2;
+
+        renderFrame(
+            view,
+            session.pauseMenu ? player.state : interpolateState(player.previous, player.state, alpha),
+            player.effects.pool
+        );
+        drawPixelText(view, messages().versus.player(index + 1), 56, view.canvas.height - 40, 32, HIGHLIGHT_COLOR);
+        drawPixelText(view, messages().versus.mashKey(VERSUS_KEYS[index]), view.canvas.width - 112, view.canvas.height - 40, 24);
+        if (versus.winner !== null) {
+            drawPixelText(view, versusOutcome(versus, index), viewCenterX, view.canvas.height * 0.3, 96, HIGHLIGHT_COLOR);
+        }
+
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(view.canvas, index * halfWidth, 0, halfWidth, canvas.height);
+    });
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(halfWidth - 2, 0, 4, canvas.height);
+
+    drawPauseMenu(ctx, session);
+};
+
+// 対戦の勝敗と、両者の到達時間・高度
+const drawVersusResultScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { versus, screenTime } = session;
+    if (!versus) return;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.15;
+    const m = messages();
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawPixelText(
+        ctx,
+        versus.winner === 'draw' ? m.versus.drawTitle : m.versus.wins((versus.winner ?? 0) + 1),
+        centerX,
+        top,
+        40,
+        HIGHLIGHT_COLOR
+    );
+
+    versus.players.forEach(({ state }, i) => {
+        const index = i as PlayerIndex;
+        const x = canvas.width * (index === 0 ? 0.25 : 0.75);
+        const status = m.outcomes[state.isExploded ? 'orbit' : state.isFailed ? 'failed' : 'flying'];
+        const isWinner = versus.winner === index;
+
+        drawPixelText(
+            ctx,
+            `${m.versus.player(index + 1)}  ${versusOutcome(versus, index)}`,
+            x,
+            top + 80,
+            24,
+            isWinner ? HIGHLIGHT_COLOR : undefined
+        );
+        drawPixelText(ctx, status, x, top + 130, 20);
+        drawPixelText(ctx, m.versus.time((state.endTime / 1000).toFixed(2)), x, top + 170, 16);
+        drawPixelText(ctx, m.versus.altitude(formatAltitude(state.altitude)), x, top + 200, 16);
+    });
+
+    drawPixelText(ctx, m.versus.rule, centerX, canvas.height * 0.68, 12);
+
+    if (screenTime >= RESULT_INPUT_DELAY_MS && isBlinkOn(screenTime, 500)) {
+        drawPixelText(ctx, m.versus.rematch, centerX, canvas.height * 0.8, 20);
+        drawPixelText(ctx, m.common.escTitle, centerX, canvas.height * 0.8 + 30, 20);
+    }
+};
+
+// オンライン対戦の部屋。つながっている人と、レースを始められるかを出す
+const drawLobbyScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { online } = session;
+    if (!online) return;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.15;
+    const hintY = canvas.height * 0.8;
+    const m = messages();
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawPixelText(ctx, m.online.title, centerX, top, 40, HIGHLIGHT_COLOR);
+    drawPixelText(ctx, m.common.escLeave, centerX, hintY + 30, 16);
+
+    switch (online.status) {
+        case 'connecting':
+            drawPixelText(ctx, m.online.connecting, centerX, canvas.height / 2, 20);
+            return;
+        case 'roomFull':
+        case 'lost':
+            drawPixelText(ctx, online.status === 'roomFull' ? m.online.roomFull : m.online.lost, centerX, canvas.height / 2, 20);
+            drawPixelText(ctx, m.online.tryAgain, centerX, hintY, 16);
+            return;
+    }
+
+    const rows = [
+        m.online.you(`${online.id ?? '?'}`, Math.round(online.rtt)),
+        ...[...online.peers.entries()].map(([id, peer]) => m.online.peer(id, peer.isReady, Math.round(peer.rtt)))
+    ];
+    rows.forEach((row, i) => drawPixelText(ctx, row, centerX, top + 70 + i * 28, 16, i === 0 ? HIGHLIGHT_COLOR : undefined));
+
+    const isReady = [...online.peers.values()].some(peer => peer.isReady);
+    const hint = !isHost(online)
+        ? m.online.waitingForHost
+        : isReady ? m.online.start : m.online.waitingForOpponents;
+    if (isBlinkOn(session.screenTime, 500)) {
+        drawPixelText(ctx, hint, centerX, hintY, 20);
+    }
+};
+
+// オンライン対戦のプレイ画面。自分の画面に相手を幽霊として重ねる
+const drawOnlineScreen = (ctx: CanvasRenderingContext2D, session: Session, alpha: number) => {
+    const { online } = session;
+    if (!online) return;
+    const canvas = ctx.canvas;
+    const state = interpolateState(session.previous, session.state, alpha);
+
+    renderFrame(ctx, state, session.effects.pool);
+    drawGhosts(ctx, online, state, session.now());
+
+    const m = messages();
+    if (online.startDelayMs > 0) {
+        drawPixelText(ctx, m.online.syncing, canvas.width / 2, canvas.height / 2, 24, HIGHLIGHT_COLOR);
+    }
+    if (online.status === 'lost') {
+        drawPixelText(ctx, m.online.lost, canvas.width / 2, 24, 16, HIGHLIGHT_COLOR);
+    }
+    drawPixelText(ctx, m.online.forfeit, canvas.width - 80, canvas.height - 20, 10);
+};
+
+// オンライン対戦の順位表。まだ飛んでいる相手がいれば結果が届くたびに並び替わる
+const drawOnlineResultScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { online, screenTime } = session;
+    if (!online) return;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.15;
+    const standings = rankStandings(online, session.state);
+    const rank = standings.findIndex(standing => standing.isLocal) + 1;
+    const m = messages();
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const title = online.status === 'lost'
+        ? m.online.noContest
+        : standings.some(standing => standing.outcome === 'flying')
+            ? m.online.waitingForOthers
+            : rank === 1 ? m.online.youWin : m.online.placed(rank, standings.length);
+    drawPixelText(ctx, title, centerX, top, 32, HIGHLIGHT_COLOR);
+    if (online.status === 'lost') {
+        drawPixelText(ctx, m.online.lostDuringRace, centerX, top + 40, 12);
+    }
+
+    standings.forEach((standing, i) => {
+        const detail = standing.outcome === 'orbit'
+            ? `${(standing.time / 1000).toFixed(2)}s`
+            : formatAltitude(standing.altitude);
+        const name = `P${standing.id}${standing.isLocal ? '*' : ' '}`;
+        const row = `${i + 1}. ${name.padEnd(5, ' ')} ${m.outcomes[standing.outcome].padEnd(6, ' ')} ${detail.padStart(8, ' ')}`;
+        drawPixelText(ctx, row, centerX, top + 90 + i * 30, 16, standing.isLocal ? HIGHLIGHT_COLOR : undefined);
+    });
+
+    drawPixelText(ctx, m.versus.rule, centerX, canvas.height * 0.72, 12);
+    if (screenTime >= RESULT_INPUT_DELAY_MS && isBlinkOn(screenTime, 500)) {
+        drawPixelText(ctx, m.online.backToRoom, centerX, canvas.height * 0.8, 20);
+        drawPixelText(ctx, m.common.escLeave, centerX, canvas.height * 0.8 + 30, 20);
+    }
+};
+
+// 難易度と調整値の設定画面
+const drawSettingsScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { difficulty, settingsCursor } = session;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.2;
+    const rowHeight = 24;
+    const config = configFor(difficulty);
+    const m = messages();
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawPixelText(ctx, m.settings.title, centerX, canvas.height * 0.1, 40);
+
+    drawPixelText(
+        ctx,
+        m.settings.difficulty(m.presets[difficulty.preset]),
+        centerX,
+        top,
+        20,
+        settingsCursor === 0 ? HIGHLIGHT_COLOR : undefined
+    );
+
+    CONFIG_FIELDS.forEach((field, i) => {
+        const isSelected = settingsCursor === i + 1;
+        const value = `${config[field.key]}`.padStart(6, ' ');
+        const row = `${m.settings.fields[field.key].padEnd(15, ' ')} ${isSelected ? '<' : ' '}${value}${isSelected ? '>' : ' '}`;
+        drawPixelText(ctx, row, centerX, top + (i + 2) * rowHeight, 16, isSelected ? HIGHLIGHT_COLOR : undefined);
+    });
+
+    drawPixelText(ctx, m.settings.customNote, centerX, canvas.height * 0.85, 12);
+    drawPixelText(ctx, m.common.changeHelp, centerX, canvas.height * 0.85 + 30, 12);
+};
+
+// 揺れ・明滅・入力方式の設定画面
+const drawAccessibilityScreen = (ctx: CanvasRenderingContext2D, session: Session) => {
+    const { accessibility, accessibilityCursor } = session;
+    const canvas = ctx.canvas;
+    const centerX = canvas.width / 2;
+    const top = canvas.height * 0.25;
+    const rowHeight = 36;
+    const m = messages();
+    const onOff = (value: boolean) => (value ? m.common.on : m.common.off);
+    const values: Record<(typeof ACCESSIBILITY_ROWS)[number], string> = {
+        inputMode: m.inputModes[accessibility.inputMode],
+        reducedMotion: onOff(accessibility.reducedMotion),
+        reducedFlash: onOff(accessibility.reducedFlash),
+        shakeStrength: `${Math.round(accessibility.shakeStrength * 100)}%`
+    };
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawPixelText(ctx, m.accessibility.title, centerX, canvas.height * 0.1, 40);
+
+    ACCESSIBILITY_ROWS.forEach((row, i) => {
+        const isSelected = accessibilityCursor === i;
+        const value = values[row].padStart(6, ' ');
+        const text = `${m.accessibility.rows[row].padEnd(15, ' ')} ${isSelected ? '<' : ' '}${value}${isSelected ? '>' : ' '}`;
+        drawPixelText(ctx, text, centerX, top + i * rowHeight, 20, isSelected ? HIGHLIGHT_COLOR : undefined);
+    });
+
+    drawPixelText(ctx, m.accessibility.notes[accessibility.inputMode], centerX, canvas.height * 0.7, 16);
+    drawPixelText(ctx, m.accessibility.assistNote, centerX, canvas.height * 0.7 + 32, 12, undefined, {
+        maxWidth: canvas.width - 160
+    });
+    drawPixelText(ctx, m.common.changeHelp, centerX, canvas.height * 0.85 + 30, 12);
+};
+
+// 実績の解除を知らせるトーストの大きさと、画面の外から滑り込む時間（ms）
+const TOAST_WIDTH = 320;
+const TOAST_HEIGHT = 64;
+const TOAST_SLIDE_MS = 200;
+// トーストの左に描く、解除した塗装の小さなロケット
+const TOAST_ROCKET = { ...ROCKETS.standard, width: 12, height: 24 };
+
+// 右上に実績の名前と解除した塗装を出す（プレイの邪魔にならないように小さく）
+const drawAchievementToast = (ctx: CanvasRenderingContext2D, toast: AchievementToast) => {
+    const canvas = ctx.canvas;
+    const m = messages();
+    const paint = ACHIEVEMENT_PAINTS[toast.id];
+
+    const slide = isMotionReduced()
+        ? 1
+        : Math.min(toast.elapsed / TOAST_SLIDE_MS, (TOAST_MS - toast.elapsed) / TOAST_SLIDE_MS, 1);
+    const x = Math.round(canvas.width - (TOAST_WIDTH + 12) * slide);
+    const y = 12;
+
+    ctx.fillStyle = HIGHLIGHT_COLOR;
+    ctx.fillRect(x - 2, y - 2, TOAST_WIDTH + 4, TOAST_HEIGHT + 4);
+    ctx.fillStyle = '#111122';
+    ctx.fillRect(x, y, TOAST_WIDTH, TOAST_HEIGHT);
+
+    drawRocket(ctx, x + 24, y + 20, toast.elapsed, TOAST_ROCKET, ROCKET_PAINTS[paint]);
+    drawPixelText(ctx, m.achievements.unlocked, x + 48, y + 14, 8, HIGHLIGHT_COLOR, { align: 'left' });
+    drawPixelText(ctx, m.achievements.names[toast.id], x + 48, y + 32, 16, undefined, { align: 'left' });
+    drawPixelText(ctx, m.achievements.newPaint(m.achievements.paints[paint]), x + 48, y + 52, 8, undefined, { align: 'left' });
+};
+
+// 現在の画面を描画する
+export const renderSession = (ctx: CanvasRenderingContext2D, session: Session, alpha: number) => {
+    // 揺れと明滅の設定と言語、ロケットの塗装は描画の途中のどこからでも参照する
+    setComfortSettings(session.accessibility);
+    setLocale(session.locale);
+    setRocketPaint(paintPalette(session.achievements.paint));
+
+    switch (session.screen) {
+        case 'title':
+            drawTitleScreen(ctx, session);
+            break;
+        case 'settings':
+            drawSettingsScreen(ctx, session);
+            break;
+        case 'accessibility':
+            drawAccessibilityScreen(ctx, session);
+            break;
+        case 'select':
+            drawSelectScreen(ctx, session);
+            break;
+        case 'play':
+            // 一時停止中は補間せず止まった状態を描く
+            renderFrame(
+                ctx,
+                session.pauseMenu ? session.state : interpolateState(session.previous, session.state, alpha),
+                session.effects.pool
+            );
+            if (session.pauseMenu) {
+                drawPauseMenu(ctx, session);
+                break;
+            }
+            drawPauseButton(ctx);
+            if (session.playback && isBlinkOn(session.screenTime, 500)) {
+                drawPixelText(ctx, messages().play.replay, ctx.canvas.width / 2, ctx.canvas.height - 30, 16, HIGHLIGHT_COLOR);
+            }
+            break;
+        case 'result':
+            drawResultScreen(ctx, session);
+            break;
+        case 'nameEntry':
+            drawNameEntryScreen(ctx, session);
+            break;
+        case 'leaderboard':
+            drawLeaderboardScreen(ctx, session);
+            break;
+        case 'versus':
+            drawVersusScreen(ctx, session, alpha);
+            break;
+        case 'versusResult':
+            drawVersusResultScreen(ctx, session);
+            break;
+        case 'lobby':
+            drawLobbyScreen(ctx, session);
+            break;
+        case 'online':
+            drawOnlineScreen(ctx, session, alpha);
+            break;
+        case 'onlineResult':
+            drawOnlineResultScreen(ctx, session);
+            break;
+    }
+
+    if (session.toasts.length > 0) {
+        drawAchievementToast(ctx, session.toasts[0]);
+    }
+};
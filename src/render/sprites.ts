@@ -0,0 +1,120 @@
+import type { PadPalette, RocketPalette, RocketSpec } from '../game/catalog';
+import { drawCachedLayer, type Layer, type LayerContext } from './layerCache';
+
+// 発射台が中心と基部からはみ出す範囲（px）
+const PAD_HALF_WIDTH = 70;
+const PAD_TOP = 204;
+const PAD_BOTTOM = 4;
+
+const paintLaunchPad = (ctx: LayerContext, centerX: number, baseY: number, palette: PadPalette) => {
+    // const padWidth = 160;
+    const padHeight = 200;
+
+    // メインの支柱
+    ctx.fillStyle = palette.strut;
+    ctx.fillRect(centerX - 50, baseY - padHeight, 12, padHeight);
+    ctx.fillRect(centerX + 38, baseY - padHeight, 12, padHeight);
+
+    // 支柱の装飾
+    for (let h = 0; h < padHeight; h += 20) {
+        ctx.fillStyle = palette.strutDetail;
+        ctx.fillRect(centerX - 54, baseY - h - 10, 20, 4);
+        ctx.fillRect(centerX + 34, baseY - h - 10, 20, 4);
+    }
+
+    // 横方向の補強材
+    for (let y = 0; y < 5; y++) {
+        const barY = baseY - (padHeight * (y + 1) / 5);
+
+        // メインの横バー
+        ctx.fillStyle = palette.brace;
+        ctx.fillRect(centerX - 50, barY, 100, 8);
+
+        // 装飾パーツ
+        ctx.fillStyle = palette.braceDetail;
+        for (let x = -40; x <= 40; x += 20) {
+            ctx.fillRect(centerX + x - 5, barY - 4, 10, 16);
+        }
+    }
+
+    // 発射台の基部
+    ctx.fillStyle = palette.base;
+    ctx.fillRect(centerX - 70, baseY - 20, 140, 20);
+
+    // 基部の装飾
+    ctx.fillStyle = palette.baseDetail;
+    for (let x = -60; x <= 60; x += 20) {
+        ctx.fillRect(centerX + x - 5, baseY - 24, 10, 28);
+    }
+};
+
+// 発射台は発射場の配色ごとに一度だけ描いておく
+const padLayers = new Map<PadPalette, Layer | null>();
+
+export const drawLaunchPad = (ctx: CanvasRenderingContext2D, centerX: number, baseY: number, palette: PadPalette) =>
+    drawCachedLayer(
+        ctx,
+        padLayers,
+        palette,
+        centerX - PAD_HALF_WIDTH,
+        baseY - PAD_TOP,
+        PAD_HALF_WIDTH * 2,
+        PAD_TOP + PAD_BOTTOM,
+        layer => paintLaunchPad(layer, PAD_HALF_WIDTH, PAD_TOP, palette)
+    );
+
+// 実績で解除した塗装（描画のたびに renderSession から受け取る。null なら機体の標準の配色）
+let paint: RocketPalette | null = null;
+
+export const setRocketPaint = (palette: RocketPalette | null) => {
+    paint = palette;
+};
+
+// 機体を描くときの配色（塗装を選んでいればその配色）
+export const paintedPalette = (rocket: RocketSpec) => paint ?? rocket.palette;
+
+/**
+ * ロケットを描く。y は胴体の上端で、先端はその上、炎は胴体の下に伸びる。
+ * 各パーツの大きさは標準機（32×64）の比率を機体の寸法に合わせて拡大縮小する。
+ * palette を省くとプレイヤーが選んだ塗装で描く。
+ */
+export const drawRocket = (
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    time: number,
+    rocket: RocketSpec,
+    palette: RocketPalette = paintedPalette(rocket)
+) => {
+    const { width, height } = rocket;
+
+    // ロケット本体
+    ctx.fillStyle = palette.body;
+    ctx.fillRect(x - width / 2, y, width, height);
+
+    // 窓
+    ctx.fillStyle = palette.window;
+    ctx.fillRect(x - width / 4, y + height / 4, width / 2, width / 2);
+
+    // 先端
+    ctx.fillStyle = palette.nose;
+    ctx.fillRect(x - width * 3 / 8, y - width / 2, width * 3 / 4, width / 2);
+
+    // フィン
+    ctx.fillStyle = palette.fins;
+    ctx.fillRect(x - width * 3 / 4, y + height * 3 / 4, width / 4, height / 4);
+    ctx.fillRect(x + width / 2, y + height * 3 / 4, width / 4, height / 4);
+
+    // エンジンの炎
+    const flameHeight = height / 2 + Math.sin(time * 0.1) * height / 8;
+    for (let i = 0; i < flameHeight; i += 4) {
+        const flameWidth = width * 3 / 4 - (i / flameHeight) * width / 2;
+        ctx.fillStyle = i < flameHeight / 2 ? palette.flame[0] : palette.flame[1];
+        ctx.fillRect(
+            x - flameWidth / 2,
+            y + height + i,
+            flameWidth,
+            4
+        );
+    }
+};
@@ -0,0 +1,69 @@
+// 描画はすべてこの論理解像度で行い、表示用の canvas に整数倍で拡大して写す
+export const LOGICAL_WIDTH = 960;
+export const LOGICAL_HEIGHT = 540;
+
+// 論理解像度の画面を実際の画素にどう置くか
+export interface Viewport {
+    // 表示用 canvas の画素数（CSS サイズ × devicePixelRatio）
+    width: number;
+    height: number;
+    // CSS の 1px あたりの画素数
+    pixelRatio: number;
+    // 論理 1px あたりの画素数（論理解像度より小さい画面以外では整数）
+    scale: number;
+    // 上下左右の黒帯の幅（画素）
+    offsetX: number;
+    offsetY: number;
+}
+
+/**
+ * CSS サイズと devicePixelRatio から表示の配置を決める。
+ * 拡大率は収まる最大の整数にし、余りは中央寄せの黒帯にする。
+ * 論理解像度より小さい画面では仕方なく縮小する。
+ */
+export const computeViewport = (cssWidth: number, cssHeight: number, devicePixelRatio: number): Viewport => {
+    const width = Math.max(Math.round(cssWidth * devicePixelRatio), 1);
+    const height = Math.max(Math.round(cssHeight * devicePixelRatio), 1);
+    const fit = Math.min(width / LOGICAL_WIDTH, height / LOGICAL_HEIGHT);
+    const scale = fit >= 1 ? Math.floor(fit) : fit;
+
+    return {
+        width,
+        height,
+        pixelRatio: devicePixelRatio,
+        scale,
+        offsetX: Math.floor((width - LOGICAL_WIDTH * scale) / 2),
+        offsetY: Math.floor((height - LOGICAL_HEIGHT * scale) / 2)
+    };
+};
+
+// 論理解像度で描いたフレームを表示用 canvas に補間なしで拡大して写す
+export const presentFrame = (ctx: CanvasRenderingContext2D, frame: HTMLCanvasElement, viewport: Viewport) => {
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, viewport.width, viewport.height);
+    ctx.drawImage(
+        frame,
+        viewport.offsetX,
+        viewport.offsetY,
+        LOGICAL_WIDTH * viewport.scale,
+        LOGICAL_HEIGHT * viewport.scale
+    );
+};
+
+// canvas 上の CSS 座標を論理解像度の座標に変換する（タップ位置の判定用）
+export const toLogical = (viewport: Viewport, cssX: number, cssY: number) => ({
+    x: (cssX * viewport.pixelRatio - viewport.offsetX) / viewport.scale,
+    y: (cssY * viewport.pixelRatio - viewport.offsetY) / viewport.scale
+});
+
+// 画面外で描くための canvas
+export const createViewCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+// 論理解像度のフレームを描く canvas
+export const createFrameCanvas = () => createViewCanvas(LOGICAL_WIDTH, LOGICAL_HEIGHT);
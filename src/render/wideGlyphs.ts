@@ -0,0 +1,273 @@
+// scripts/bakeWideGlyphs.js が DotGothic16（SIL Open Font License 1.1）から作る。手で書き換えない。
+// メッセージに出てくる ASCII 以外の文字の 16×16 のドット文字で、1行を16進4桁（上位ビットが左）で並べる
+export const WIDE_GLYPHS: Record<string, string> = {
+    '、': '0000000000000000000000000000000000000000000040006000300010000000',
+    '。': '0000000000000000000000000000000000000000380044004400440038000000',
+    'あ': '0000020002003ffc0200020803d00e3812242242424242824302460439080070',
+    'い': '000000000000201020102008200820042004200420022082108211000e000000',
+    'う': '000000000fc000380000000007f038080004000400040008001000601f800000',
+    'え': '00000000060001f0000000001ff80030004000800380044008401040203e0000',
+    'か': '000004000400042004107f88084808441044104210402040208040804f000000',
+    'が': '000004080414040a04247f90084808441044104210402040208040804f000000',
+    'き': '00000200020001383fc00080005c3fe0002000100ff8100c100010000ff80000',
+    'く': '00000000001000200040018002000c0010001000080006000180004000300008',
+    'け': '0000000010101010201027fe2010201020102010201020102020202020402180',
+    'げ': '00000014202a202a40204ffc4020402040204020402040204040404040804300',
+    'さ': '0000010001000080004e3ff000200010000807f4080e10001000080407f80000',
+    'し': '000000002000200020002000200020002000200020042008201010600f800000',
+    'す': '00000040004000407ffe00400040074008c0084008c007400040008001000600',
+    'ず': '00000054004a00457ffc00400040074008c0084008c007400040008001000600',
+    'せ': '0000000008100810081008107ffe081008100810081008e00800040003f80000',
+    'た': '00000400040004003fe00400080008fe08000800100010801100210020fe0000',
+    'だ': '00000808082408127f880800100011fc10001000200021002200420041fc0000',
+    'ち': '00000100010002003ff80400040008000bf01c0810040004000400180fe00000',
+    'っ': '00000000000000000000000007f038080004000400040008003007c000000000',
+    'つ': '000000000000000007f07808000400020002000200020004000800700f800000',
+    'て': '0000000000007ffe006000800100020004000400040004000200030000f80000',
+    'で': '0000000000007ffe006000840112020904040400040004000200030000f80000',
+    'と': '000002000200020002000200027c03800c001000200020002000180007fc0000',
+    'な': '00000200020004007fbc04020800082010201020202023e04430042804440380',
+    'に': '000000001000100013fc20002000200020002000200022002200210020fc0000',
+    'ぬ': '000000201020104017f0184c1084288229024a024402447a4c864a8630790000',
+    'の': '00000000000003e00c98108420842102410241024202420244042404181800e0',
+    'は': '0000000010101010201027fe2010201020102010201023f02418241423e20000',
+    'ば': '0000000a2025202540204ffc4020402040204020402047e04830482847c40000',
+    'ふ': '00000000070000e0001000000200018010481024202420224022484207800000',
+    'へ': '0000000000000000060009000880104020402020401000080008000400020000',
+    'べ': '0000000000000004061209090884104020402020401000080008000400020000',
+    'ほ': '00000000100017fe20102010201027fe20102010201023f02418241423e20000',
+    'ま': '00000080008000803ffc008000803ffc0080008000801f8020e0209020881f04',
+    'む': '00000400040004103fc8040404021c02240024002408240418040804080807f0',
+    'も': '00000400040004003fc00800080808047fc408020802080208020804040803f0',
+    'や': '0000008010801040104009f80e04380248020402040c04f00400020002000200',
+    'ら': '000000000fc00030000008000800100011f0160818040004000400180fe00000',
+    'り': '0000000008f00908120814041404180418041004100400080008001000e00f00',
+    'る': '0000000000001ff0002000400180020007f0180820040e04110811180fe00000',
+    'れ': '00000800080008000870788809080a080c0818081810281028104811480e0800',
+    'ろ': '0000000000000ff8002000400180020005f81e04300200020002000c1ff00000',
+    'わ': '000008000800080078f00b0c0c040802180218022802280248044808483009c0',
+    'を': '00000100010001003ff80200078004460858106011c0224004400440040003fc',
+    'ん': '0000020002000200040004000800080013021482188230842084408840700000',
+    'ァ': '000000000000000000003ffc0004010801080110012001400200020004001800',
+    'ア': '000000003ffe0002000201040104010801100120020002000400080030000000',
+    'ィ': '00000000000000000008001000200040008003800c8010800080008000800080',
+    'イ': '000000020004000800100020006000a003200c20302000200020002000200020',
+    'ウ': '00000100010001003ffc20042004200420042008000800100020004003801c00',
+    'ェ': '0000000000000000000000001ff801000100010001000100010001003ffc0000',
+    'オ': '000000100010001000107ffe00300050009001100210041008103010401001e0',
+    'カ': '00000100010001003ffc01040104020402040204040404040804100820f00000',
+    'キ': '000002000200020003f87f0001000100010001fe7f8000800080008000800080',
+    'ク': '000001000100020003fc04040404080810082010001000200040018006003800',
+    'グ': '000002280214040a07f80808080810102010402000200040008003000c007000',
+    'ケ': '000000000400040008000ffe1020102020204040004000800080010006001800',
+    'ゲ': '00000014040a040508000ffe1020102020204040004000800080010006001800',
+    'コ': '00000000000000003ffc0004000400040004000400040004000400043ffc0004',
+    'ゴ': '000000280014000a7ff80008000800080008000800080008000800087ff80008',
+    'シ': '000000000c000300008030020c0202020004000400080010006003801c000000',
+    'ス': '0000000000003ff000100010002000200040004000a001100608180460020000',
+    'ズ': '00000014000a3ff500100010002000200040004000a001100608180460020000',
+    'セ': '0000000004000400041e04e20f02340404040408041004600400040003fe0000',
+    'タ': '000000800080010001fe02020402080212042184004800300020004003801c00',
+    'ッ': '000000000000000002001104088404840404000800080010002000c007000000',
+    'ツ': '000000000000020221021102108208840804000800080010006001800e000000',
+    'テ': '0000000000003ffc0000000000007ffe00800080008001000100020004001800',
+    'ト': '0000100010001000100010001c00138010601018100010001000100010001000',
+    'ド': '0000101010481024101010001c00138010601018100010001000100010001000',
+    'ニ': '00000000000000001ffc0000000000000000000000000000000000003ffe0000',
+    'ハ': '0000000000000420042004100410080808080804100410042002200240000000',
+    'パ': '0000000600090429042604100410080808080804100410042002200240000000',
+    'ビ': '000000282014200a2000203020c027003800200020002000200020001ff80000',
+    'フ': '0000000000003ffc0004000400040008000800100010002000c003001c000000',
+    'プ': '0000000600097ff9000e00080008001000100020002000400180060038000000',
+    'ベ': '0000000000040012030904840880084010202010200840080004000200010000',
+    'ホ': '000000800080008000803ffe0080008008900888108410842082408200800700',
+    'ボ': '00000094008a008500803ffe0080008008900888108410842082408200800700',
+    'ミ': '0000000000000e0001e0001c00000e0001e0001800001c0003800070000c0000',
+    'ム': '000000000100010001000200020004000420041008100808100410fc7f020002',
+    'ャ': '0000000000000000020002000200027c1f840104010801080110012001000100',
+    'ュ': '0000000000000000000000001ff000100010001000200020002000203ffc0000',
+    'ョ': '000000000000000000001ff80008000800080ff80008000800081ff800080000',
+    'ラ': '000000001ff80000000000003ffc000400040004000800080010002000c01f00',
+    'リ': '0000000010081008100810081008100810081008100800100010002000c00f00',
+    'ル': '000000000480048004800480048004820882088408841088109020a040c00000',
+    'レ': '0000000020002000200020002000200420082010202020402180260038000000',
+    'ロ': '0000000000003ffc2004200420042004200420042004200420043ffc20040000',
+    'ン': '0000000000002000180406040104000800080010002000400180060038000000',
+    'ー': '000000000000000000000000000000003ffc0000000000000000000000000000',
+    '一': '00000000000000000000000000007fff00000000000000000000000000000000',
+    '上': '000001000100010001000100010001fc0100010001000100010001007fff0000',
+    '下': '000000007fff00800080008000e0009800860080008000800080008000800080',
+    '中': '00000080008000803ffe208220822082208220823ffe20820080008000800080',
+    '人': '0000008000800080008000800080008001400140022004200810100820044003',
+    '位': '000008200820082013fe10003004310451045088108810881090101017ff1000',
+    '使': '0000082008200fff1020102033fe3222522253fe1020132010c0106011981607',
+    '保': '0000040005fe05020902090219fe182028204bff087008a809240a220c210820',
+    '値': '0000082008200bff102010fe328232fe528252fe1282128212fe120013ff1200',
+    '停': '00000410041009ff080018fe188228fe280049ff090108fe08100810081008e0',
+    '備': '00000844084409ff1044104413ff3100317f5149117f1149127f124912491446',
+    '像': '0000088008f8090817fe1222122233fe304853aa107c139410741792102110c0',
+    '充': '0000008000807fff010002080204043c3fe2000202200220042104211821601e',
+    '先': '00000080088008800ffc08801080208000807fff02200220042204221822601c',
+    '入': '000000000f800080008000800080008001400140022002200410080810046003',
+    '再': '000000007fff008000801ffc108410841ffc108410847fff1004100410041038',
+    '出': '00000080008010841084108410841ffc0080208220822082208220823ffe2002',
+    '分': '000002200410041008081004200240011ff802080208040804080808100860f0',
+    '切': '00001000100010fe102213221c227022102210221122112211420e42008c0100',
+    '判': '000004022482249214921512151204123f92041204127fd2040204020402041c',
+    '別': '000000023f822092209220923f92081208120f9210921092108220822082471c',
+    '到': '000000023fc208120912109211923e52025202123fd20212020203c27c02001c',
+    '制': '00000402240224123f92441204127fd2041204123f922492248224822502040c',
+    '前': '00000810042002407fff00003f04212421243f2421243f242124210421042638',
+    '力': '000000800080008000803ffe0082008201020102020202020402080410046078',
+    '功': '00000020002000207f2008fe082208220822084208420f427882008401040238',
+    '助': '000000103f102110211021ff3f11211121113f112121212121212fc17041008e',
+    '効': '00000408040804087fc80008113f108920494909090906110511089130a14046',
+    '動': '000001903e1004107f90047f3f9124913f9124913f9104113fa1042107a17c4e',
+    '勝': '000000203d2424a424a825fe3c50244827ff3c84252326fc2424442444445998',
+    '口': '0000000000003ffe20022002200220022002200220022002200220023ffe2002',
+    '右': '00000080008000807fff01000100020004000ffc140464040404040407fc0404',
+    '合': '000001000180024004200810100c67f3000000000ff80808080808080ff80808',
+    '同': '000000003ffe200220022ffa2002200227f224122412241227f220022002203c',
+    '名': '00000080008001fe0304050818900060018007fe3a0202020202020203fe0202',
+    '告': '00000080088008800ffc1080208000807fff00000ff80808080808080ff80808',
+    '員': '000000000ff8080808080ff800001ffc10041ffc10041ffc10041ffc0410380e',
+    '噴': '0000004003fc784049484ffe49084bfc4a044bfc4a047bfc420443fc01080606',
+    '回': '000000003ffe2002200223e2222222222222222223e22002200220023ffe2002',
+    '圏': '000000003ffe249222a227f221422ffa222227f2382e23e2221221e23ffe2002',
+    '場': '0000100011fc110411fc11047dfc100013ff108011fe114a1e5260920122004c',
+    '塗': '0000303008480084337b082003fe10201128222640e000801ffc008000807fff',
+    '填': '0000002013ff102011fc110411fc7d0411fc110411fc14001bff608801060601',
+    '変': '0000008000807fff01200928112662210cc0020007fc0c08333000c007387807',
+    '外': '00000810081008100f90089010d010b029104518021602110410081010106010',
+    '大': '0000008000800080008000807fff008001400140022002200410080810046003',
+    '失': '000000800880088008800ffc1080208000807fff0080014002200410180c6003',
+    '始': '00001020102010247e441242124e12f1220034000c7e08420c421242227e4042',
+    '字': '0000010001007ffe400240024ff2002000c000807ffe00800080008000800700',
+    '存': '0000010001003fff0200040009fc1808283048200bff082008200820082008c0',
+    '宇': '0000008000803ffe200220020ff8008000807fff008000800080008000800700',
+    '宙': '0000008000807fff4001408100801ffe108210821ffe1082108210821ffe1002',
+    '定': '0000010001007ffc400440043ff80100010011f8110011001900270021fe4000',
+    '実': '0000008000803ffe2002208200801ffc00800ff800803ffe014002200c187007',
+    '対': '000008040804080408047f7f020402442444142408240c041204120420044038',
+    '射': '0000040408043f0421043f7f21043f24212421943f1465040904110461040638',
+    '届': '00001ffe100210021ffe10201020102017ff1421142127ff2421242147ff4401',
+    '屋': '000000001ffc100410041ffc100017fc1108123817c4204027fc204040405fff',
+    '層': '00001fff10011fff110817ff142117ff142117ff100023fe220223fe420243fe',
+    '岸': '00000080108210821ffe000000003fff100017fe1040104017ff204020404040',
+    '左': '00000100010001007fff02000200040004000ffc10802080408000803fff0000',
+    '己': '000000003ff800080008000800083ff820002000200020022002200220021ffc',
+    '幅': '0000100011fe10007cfc5484548454fc540055fe552255fe5922112211fe1102',
+    '度': '0000004000401ffe111011101ffe111011f0100017fc21082090206041984e07',
+    '式': '00000040004800443fff0040004000403f2004200420041004110f8970050002',
+    '引': '000000043f840084008400841f84100420043f84008400840084008400840f04',
+    '待': '00000420082009fe102064200bff080818086bff080808880848080808080870',
+    '必': '0000060001080088001004102422242224422442448145090608060819f06000',
+    '急': '00000200020007f0082070401ffc00040ffc00041ffc00000484144a240943f0',
+    '成': '00000040004800441fff1040104010441f441128112811102131264920854002',
+    '戦': '00004890249401123f9224903f9f24f024923f94040804087fd9042904450402',
+    '戻': '000000003fff00001ffe100210021ffe1000104010402fff204020a041184e07',
+    '手': '000000781f80008000801ffc0080008000807fff008000800080008000800700',
+    '打': '00000800080008ff08087f08080808080b080c08780808080808080808083070',
+    '抑': '00001040119e111211127d1211121112151219127112111211d2131c10106010',
+    '投': '0000080008f8088808887e89088909060a000dfc788408880850083008cc3303',
+    '抗': '000008200820082009ff7e00080008f80e887888088808880889090909097206',
+    '択': '0000080008fe088208827e82088208fe0a901c9068880908090409040a023201',
+    '抵': '0000080e08f8088808887e88088808ff0e887888088808e40b05080509f33002',
+    '押': '0000080008ff089108917e9108ff08910a911c9168ff08100810081008103010',
+    '拍': '00000810081008207efe0882088208820a821cfe688208820882088208fe3082',
+    '接': '00000820082009ff08447e4408280bff0e2009ff7844088409c8083808443183',
+    '推': '000010481048109010ff7d90119012fe1c90709010fe10901090109010ff6080',
+    '揺': '0000081e09e0080209247ca4080809fe08201fff682009220922092209fe3102',
+    '敗': '000000203f20212021403f7f214221a23f222124211421083f14122421424081',
+    '文': '000000800080008000807fff08080410041002200140008001400630180c6003',
+    '料': '000008044a444a242c14280408447f2418142c072a1c28e44804480408040804',
+    '新': '0000080008067f782240224014407f7f08447f441c442a442a44498408840884',
+    '方': '00000080008000807fff02000200020003fc0204040404040404080410046078',
+    '日': '000000001ffc100410041004100410041ffc100410041004100410041ffc1004',
+    '早': '000000001ffc100410041ffc100410041ffc008000807fff0080008000800080',
+    '明': '000000007cfe4482448244827cfe4482448244fe44827c82408241020102021c',
+    '易': '000000000ff808080ff8080808080ff8020007fe0892312202220c4430840338',
+    '時': '00000020002079fc482048204bfe780848084bfe480878884048400800080070',
+    '更': '000000007fff00803ffe20823ffe208220823ffe008030800f0001e006187807',
+    '最': '000000000ff808080ff808080ff800007fff11001f7e11221f2411181f146163',
+    '期': '00001100113e7fa2112211221f3e11221f22113e11227fe2002212422142408c',
+    '本': '00000080008000807fff01c002a0049004900888108410842ffa408100800080',
+    '棄': '000000807fff04103fec000008887fff08880ff800807ffe02a00490188c6083',
+    '検': '000010201050108c11037efc3020382055fe5522512211fe1030104810841103',
+    '標': '000013ff104811fe7d4a314a39fe540055fe500053ff10101094111212111060',
+    '権': '0000104010fe111010207dff1048389034ff559052fe509010fe109010ff1080',
+    '機': '000010a410a4137a11aa7ca4116a3bbd342257ff5110519211541209123514c2',
+    '止': '0000008000800080008008800880088008fe088008800880088008807fff0000',
+    '正': '0000000000003ffe008000800880088008fc088008800880088008807fff0000',
+    '残': '000000287e24103c10e01e20223c22e034204c1e04f00812100c1009203540c3',
+    '段': '000003001c78104810481e49108910861e0010fc104413487c281030104c1183',
+    '気': '0000080008000ffe100017fc20005ff8000810480c8803080309048918452022',
+    '決': '000010400840044003fc204410440844004407ff084008a01090210842040c03',
+    '流': '0000202010200bff004020881084093c03c20808094811481148224942490c46',
+    '海': '00002080108008ff010022fe1092089200920bff09221122122423ff42040038',
+    '減': '000020101014081203ff221012100bd202120bd40b54134813c92419442504c2',
+    '満': '00004088208817ff0088408823fe102003ff0a210aa512a512a522fd4201020e',
+    '準': '00002108111043fe26200bfc022013fc222043fe008000803fff008000800080',
+    '滅': '00000014201210120bff0210221013e90a49035a0b6a0ac4126d14ad24934921',
+    '漠': '0000204810480bff004821fe110209fe010209fe082013ff10202050418c0603',
+    '火': '0000008000800080208210821084088408880140012002200410080810046003',
+    '無': '0000040008001ffe6948094809487fff0948094809483ffe0000124421224121',
+    '熱': '0000042004203f20047c7fa4112424e45f34042d07c57c430000122422224221',
+    '燃': '00001108110a11c9154857ff5a48538c5494109219222a212800224a42494449',
+    '爆': '000011fe110211fe350235fe584851fe504813ff18942b5b283028dc43134070',
+    '生': '000000800880088008800ffe1080108020804ffc00800080008000807fff0000',
+    '用': '000000001ffe1082108210821ffe108210821ffe10821082108210822082201c',
+    '画': '00007fff008000800ff8488948894ff94889488948894ff9400140017fff4001',
+    '発': '000000083f9000a211440a28041018086ff7022002203ffe022002220c22701c',
+    '直': '0000008000807fff008007f8240827f8240827f82408240827f820003fff2000',
+    '相': '00000400047f044104417fc10c7f0e411541154124ff444104410441047f0441',
+    '砂': '0000001000107e1008940892109211113f1032125264120412081e10102010c0',
+    '破': '0000001000103efe08920892089010fe1ec232a452a4129812981f2411240243',
+    '確': '000000107c1011ff1121214820903cff659066fe249024fe24903c9020ff2080',
+    '秒': '0000061078100810089408927e9219112d102a12486448040808081008600b80',
+    '移': '000006207820087e08c209247e1818202cd02b3f48614992080c080808700980',
+    '突': '0000008000803fff202121210622381e008000807fff01800240043018086007',
+    '続': '00000810081051ff2410141008fe140025fe7b02294a2a482a484a4948890b06',
+    '績': '0000081008fe5010247c141009ff140026fe7afe28822afe2a824afe482409c3',
+    '能': '00001020122622382720792100213f1e21003f2021263f38212021212121261e',
+    '自': '0000008001001ffc1004100410041ffc100410041ffc1004100410041ffc1004',
+    '行': '0000040008fe08001000620005ff080818086808080808080808080808080870',
+    '衰': '0000008000807fff00001ffc10047fff10041ffc02800c427424041807847803',
+    '装': '000002102210121002ff06101a10627e02803fff00c007247a28021003cc1c03',
+    '補': '00001024102213ff7c20042005fe0922152239fe5522152211fe11221122112c',
+    '要': '00007fff022002203ffe222222223ffe010001007fff08081e3001c006387806',
+    '解': '000008000f7e121224127fa224cc24883fa824bf24c83f8820ff208840884708',
+    '記': '000000003e7e000200027f0200023e02007e3e4000403e40224122413e41203e',
+    '設': '000000003e78004800487f4900493e8601003efc00443e44222822103e2c20c3',
+    '試': '000000083c0a000901ff7c0800083c0801e83c4800443c44247525853c052002',
+    '語': '000000003cff001000107f7e00223e2200ff3e00007e3e42224222423e7e2042',
+    '警': '000009107fd0293f3fa452e41e9803770ff800007fff0ff800000ff808080ff8',
+    '象': '0000040007c008401ffc708410841ffc01000686395806e03950064c78430380',
+    '負': '0000040004000fc0084010807ff810081ff810081ff8100810081ff80c30700e',
+    '軌': '0000082008207f2008203efc2a243e242a242a243e2408457f45084508850883',
+    '退': '0000000021fc110409fc0104010401fc79400922092c091009cc0b03160061ff',
+    '速': '0000002023ff1020082001fe0122012279fe086808a40b2308200c0013ff6000',
+    '連': '00000020202013ff082001fe012201fe792209fe08200bff08200c20132060ff',
+    '遅': '000001fe210211fe0944012801fe01107afe0a100bff0a100a10140023ff4000',
+    '道': '00000108409027fe104003fc020403fc720413fc1204120413fc180027ff4000',
+    '達': '00000020202011fe082003ff008803fe782009fe08200bff08200c20130060ff',
+    '選': '000003de204213de0a10025201ce004879fe08480bff084809860c0013ff6000',
+    '部': '00000400041f7fd1111211120a140a127fd100113f91209e209020903f902010',
+    '重': '0000001c1fe000807fff00801ffc10841ffc108410841ffc00803ffe00807fff',
+    '量': '00001ffc10041ffc10041ffc00007fff10841ffc10841ffc00803ffe00807fff',
+    '録': '0000080014fe1402227e22025c0209ff08107e99085a4a142a542c920f117060',
+    '長': '000000000ffe08000ffc08000ffc080008007fff08800846085808300f0c7003',
+    '開': '000000003f7e21423f7e21423f7e200227f222422ffa2242224224422442201c',
+    '間': '00003f7e21423f7e214221423f7e200227e2242227e22422242227e22002201c',
+    '限': '000000007df84508490849f85108490845f84542454479284110411041c84606',
+    '除': '00000060789048884904520265fc502048204bfe482070a841244222402040c0',
+    '隔': '000000007bfe480049fc5104610451fc48004bfe4a52738e42fa42224222420c',
+    '離': '0000082408247f48147f49c855487f7e08487f48557e55487b484148417f4640',
+    '難': '0000122412247f48127f12c83f48257e3f4804483f7e04487f480c48137f6140',
+    '面': '000000007fff008001003ffe2222222223e22222222223e2222222223ffe2002',
+    '音': '0000008000803ffe0410041002207fff00000ff808080ff8080808080ff80808',
+    '飛': '000000003fe0002c0530092c7920091109197fe7092c0930112c111121194107',
+    '高': '0000008000807fff00000ff808080ff800003ffe200227f2241227f22002201c',
+    '（': '0000000400080010001000200020002000200020002000200010001000080004',
+    '）': '0000200010000800080004000400040004000400040004000800080010002000'
+};
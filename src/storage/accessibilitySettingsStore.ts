@@ -0,0 +1,54 @@
+import {
+    defaultAccessibilitySettings,
+    INPUT_MODES,
+    type AccessibilitySettings,
+    type AccessibilitySettingsStore,
+    type InputMode
+} from '../game/accessibility';
+
+const STORAGE_KEY = 'renda-renderer.accessibility';
+
+export const ACCESSIBILITY_SETTINGS_SCHEMA_VERSION = 1;
+
+const parse = (raw: unknown, fallback: AccessibilitySettings): AccessibilitySettings => {
+    if (typeof raw !== 'object' || raw === null) return fallback;
+    const data = raw as Record<string, unknown>;
+    if (data.version !== ACCESSIBILITY_SETTINGS_SCHEMA_VERSION) return fallback;
+
+    return {
+        reducedMotion: typeof data.reducedMotion === 'boolean' ? data.reducedMotion : fallback.reducedMotion,
+        reducedFlash: typeof data.reducedFlash === 'boolean' ? data.reducedFlash : fallback.reducedFlash,
+        shakeStrength: typeof data.shakeStrength === 'number' && Number.isFinite(data.shakeStrength)
+            ? Math.min(Math.max(data.shakeStrength, 0), 1)
+            : fallback.shakeStrength,
+        inputMode: INPUT_MODES.includes(data.inputMode as InputMode) ? data.inputMode as InputMode : fallback.inputMode
+    };
+};
+
+/**
+ * 揺れ・明滅・入力方式の設定を localStorage に保存するストア。
+ * 一度も保存していなければ OS の prefers-reduced-motion に従う。
+ */
+export const createLocalAccessibilitySettingsStore = (
+    storage: Storage,
+    prefersReducedMotion: boolean
+): AccessibilitySettingsStore => {
+    const fallback = defaultAccessibilitySettings(prefersReducedMotion);
+    return {
+        load: () => {
+            try {
+                const json = storage.getItem(STORAGE_KEY);
+                return json ? parse(JSON.parse(json), fallback) : fallback;
+            } catch {
+                return fallback;
+            }
+        },
+        save: (settings) => {
+            try {
+                storage.setItem(STORAGE_KEY, JSON.stringify({ version: ACCESSIBILITY_SETTINGS_SCHEMA_VERSION, ...settings }));
+            } catch {
+                // 保存できなくても今回の起動中は設定が効く
+            }
+        }
+    };
+};
@@ -0,0 +1,58 @@
+import {
+    ACHIEVEMENT_IDS,
+    availablePaints,
+    EMPTY_ACHIEVEMENT_RECORD,
+    type AchievementId,
+    type AchievementRecord,
+    type AchievementStore,
+    type RocketPaintId
+} from '../game/achievements';
+
+const STORAGE_KEY = 'renda-renderer.achievements';
+
+export const ACHIEVEMENT_SCHEMA_VERSION = 1;
+
+const parse = (raw: unknown): AchievementRecord => {
+    if (typeof raw !== 'object' || raw === null) return EMPTY_ACHIEVEMENT_RECORD;
+    const data = raw as Record<string, unknown>;
+    if (data.version !== ACHIEVEMENT_SCHEMA_VERSION) return EMPTY_ACHIEVEMENT_RECORD;
+
+    const saved = typeof data.unlocked === 'object' && data.unlocked !== null
+        ? data.unlocked as Record<string, unknown>
+        : {};
+    const unlocked: Partial<Record<AchievementId, number>> = {};
+    ACHIEVEMENT_IDS.forEach(id => {
+        const time = saved[id];
+        if (typeof time === 'number' && Number.isFinite(time)) unlocked[id] = time;
+    });
+    const launches = typeof data.launches === 'number' && Number.isInteger(data.launches) && data.launches >= 0
+        ? data.launches
+        : 0;
+    const record: AchievementRecord = { unlocked, launches, paint: 'stock' };
+
+    // 解除していない塗装は選べない
+    const paint = data.paint as RocketPaintId;
+    return availablePaints(record).includes(paint) ? { ...record, paint } : record;
+};
+
+/**
+ * 実績と打ち上げの回数、選んだ塗装を localStorage に保存するストア。
+ * 読めない記録は捨てて最初からにする。
+ */
+export const createLocalAchievementStore = (storage: Storage): AchievementStore => ({
+    load: () => {
+        try {
+            const json = storage.getItem(STORAGE_KEY);
+            return json ? parse(JSON.parse(json)) : EMPTY_ACHIEVEMENT_RECORD;
+        } catch {
+            return EMPTY_ACHIEVEMENT_RECORD;
+        }
+    },
+    save: (record) => {
+        try {
+            storage.setItem(STORAGE_KEY, JSON.stringify({ version: ACHIEVEMENT_SCHEMA_VERSION, ...record }));
+        } catch {
+            // 保存できなくても今回の起動中は解除した実績が残る
+        }
+    }
+});
@@ -0,0 +1,40 @@
+import { DEFAULT_AUDIO_SETTINGS, type AudioSettings, type AudioSettingsStore } from '../audio/soundEngine';
+
+const STORAGE_KEY = 'renda-renderer.audio';
+
+export const AUDIO_SETTINGS_SCHEMA_VERSION = 1;
+
+const clampVolume = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : fallback;
+
+const parse = (raw: unknown): AudioSettings => {
+    if (typeof raw !== 'object' || raw === null) return DEFAULT_AUDIO_SETTINGS;
+    const data = raw as Record<string, unknown>;
+    if (data.version !== AUDIO_SETTINGS_SCHEMA_VERSION) return DEFAULT_AUDIO_SETTINGS;
+
+    return {
+        master: clampVolume(data.master, DEFAULT_AUDIO_SETTINGS.master),
+        music: clampVolume(data.music, DEFAULT_AUDIO_SETTINGS.music),
+        sfx: clampVolume(data.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+        muted: typeof data.muted === 'boolean' ? data.muted : DEFAULT_AUDIO_SETTINGS.muted
+    };
+};
+
+// 音量とミュートの設定を localStorage に保存するストア
+export const createLocalAudioSettingsStore = (storage: Storage): AudioSettingsStore => ({
+    load: () => {
+        try {
+            const json = storage.getItem(STORAGE_KEY);
+            return json ? parse(JSON.parse(json)) : DEFAULT_AUDIO_SETTINGS;
+        } catch {
+            return DEFAULT_AUDIO_SETTINGS;
+        }
+    },
+    save: (settings) => {
+        try {
+            storage.setItem(STORAGE_KEY, JSON.stringify({ version: AUDIO_SETTINGS_SCHEMA_VERSION, ...settings }));
+        } catch {
+            // 保存できなくても今回の起動中は設定が効く
+        }
+    }
+});
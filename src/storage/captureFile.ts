@@ -0,0 +1,13 @@
+import { downloadBlob } from './download';
+
+// 画面の画像を PNG ファイルとしてダウンロードさせる
+export const downloadScreenshot = (canvas: HTMLCanvasElement, takenAt: number) => {
+    canvas.toBlob(blob => {
+        if (blob) downloadBlob(blob, `renda-screenshot-${takenAt}.png`);
+    }, 'image/png');
+};
+
+// 録画したクリップを WebM ファイルとしてダウンロードさせる
+export const downloadClip = (clip: Blob, takenAt: number) => {
+    downloadBlob(clip, `renda-clip-${takenAt}.webm`);
+};
@@ -0,0 +1,58 @@
+import {
+    ConfigError,
+    DEFAULT_DIFFICULTY,
+    NORMAL_CONFIG,
+    PRESET_IDS,
+    validateConfig,
+    type Difficulty,
+    type DifficultyStore,
+    type PresetId
+} from '../game/config';
+
+const STORAGE_KEY = 'renda-renderer.difficulty';
+
+// 2: 軌道投入シーンの調整値を追加、3: 上昇の調整値を推力に置き換え
+export const DIFFICULTY_SCHEMA_VERSION = 3;
+
+const isPresetId = (value: unknown): value is PresetId => PRESET_IDS.includes(value as PresetId);
+
+/**
+ * 難易度とカスタム設定を localStorage に保存するストア。
+ * 読み込み時に設定値を検証し、不正な場合は警告を出して標準設定に戻す。
+ */
+export const createLocalDifficultyStore = (storage: Storage): DifficultyStore => ({
+    load: () => {
+        try {
+            const json = storage.getItem(STORAGE_KEY);
+            if (!json) return DEFAULT_DIFFICULTY;
+
+            const data = JSON.parse(json) as Record<string, unknown>;
+            if (!isPresetId(data.preset)) return DEFAULT_DIFFICULTY;
+            switch (data.version) {
+                case DIFFICULTY_SCHEMA_VERSION:
+                    return { preset: data.preset, customConfig: validateConfig(data.customConfig) };
+                case 1:
+                case 2:
+                    // 増えた項目は標準の値で補う（なくなった項目は無視される）
+                    return {
+                        preset: data.preset,
+                        customConfig: validateConfig({ ...NORMAL_CONFIG, ...(data.customConfig as object) })
+                    };
+                default:
+                    return DEFAULT_DIFFICULTY;
+            }
+        } catch (error) {
+            if (error instanceof ConfigError) {
+                console.warn(`${error.message}; falling back to the normal preset`);
+            }
+            return DEFAULT_DIFFICULTY;
+        }
+    },
+    save: (difficulty: Difficulty) => {
+        try {
+            storage.setItem(STORAGE_KEY, JSON.stringify({ version: DIFFICULTY_SCHEMA_VERSION, ...difficulty }));
+        } catch {
+            // 保存できなくても今回の起動中は設定が効く
+        }
+    }
+});
@@ -0,0 +1,12 @@
+// ダウンロードが始まる前に URL を無効にすると、ブラウザによっては中断したり空のファイルになったりする
+const REVOKE_DELAY_MS = 10_000;
+
+// Blob をファイルとしてダウンロードさせる（サーバーには送らない）
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
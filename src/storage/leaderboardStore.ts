@@ -0,0 +1,91 @@
+import {
+    createEmptyLeaderboard,
+    trimEntries,
+    type Leaderboard,
+    type LeaderboardStore
+} from '../game/leaderboard';
+
+const STORAGE_KEY = 'renda-renderer.leaderboard';
+
+export const LEADERBOARD_SCHEMA_VERSION = 4;
+
+// 保存形式。フィールドを増やすときは version を上げて migrations に変換を追加する
+interface StoredLeaderboard extends Leaderboard {
+    version: number;
+}
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] は version n のデータを version n + 1 に変換する
+const migrations: Record<number, Migration> = {
+    // v2: 記録に難易度を追加。それ以前の記録はすべて標準の難易度
+    1: (data) => ({
+        ...data,
+        entries: Array.isArray(data.entries)
+            ? data.entries.map(entry => ({ preset: 'normal', ...entry }))
+            : data.entries
+    }),
+    // v3: 軌道投入シーンを追加。それ以前の記録は軌道投入の点数なし
+    2: (data) => ({
+        ...data,
+        entries: Array.isArray(data.entries)
+            ? data.entries.map(entry => ({
+                ...entry,
+                scenes: { orbit: { presses: 0, peakTps: 0, points: 0 }, ...entry.scenes }
+            }))
+            : data.entries
+    }),
+    // v4: 入力方式ごとのランキングを追加。高度が画面上の px から実際の高度（m）に変わったのもこの間で、
+    // v3 までのデータは px の高度（大気圏シーンの点数も px の高度から出していた）のことがあり m に直せないので、
+    // 記録と高度の自己ベストは捨てる。v4 のデータは m なのでそのまま使う
+    3: (data) => ({
+        ...data,
+        entries: [],
+        bests: isRecord(data.bests) ? { ...data.bests, altitude: null } : data.bests
+    })
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const migrate = (raw: unknown): Leaderboard | null => {
+    if (!isRecord(raw) || typeof raw.version !== 'number') return null;
+
+    let data = raw;
+    for (let version = raw.version; version < LEADERBOARD_SCHEMA_VERSION; version++) {
+        const migration = migrations[version];
+        if (!migration) return null;
+        data = { ...migration(data), version: version + 1 };
+    }
+    if (data.version !== LEADERBOARD_SCHEMA_VERSION || !Array.isArray(data.entries)) return null;
+
+    const empty = createEmptyLeaderboard();
+    return {
+        entries: trimEntries(data.entries as Leaderboard['entries']),
+        bests: isRecord(data.bests) ? { ...empty.bests, ...data.bests } : empty.bests,
+        lastInitials: typeof data.lastInitials === 'string' ? data.lastInitials : empty.lastInitials
+    };
+};
+
+/**
+ * localStorage にランキングを保存するストア。
+ * 読めないデータや未来のバージョンのデータは空のランキングとして扱う。
+ */
+export const createLocalLeaderboardStore = (storage: Storage): LeaderboardStore => ({
+    load: () => {
+        try {
+            const json = storage.getItem(STORAGE_KEY);
+            return (json && migrate(JSON.parse(json))) || createEmptyLeaderboard();
+        } catch {
+            return createEmptyLeaderboard();
+        }
+    },
+    save: (leaderboard) => {
+        const stored: StoredLeaderboard = { version: LEADERBOARD_SCHEMA_VERSION, ...leaderboard };
+        try {
+            storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+        } catch {
+            // 容量超過やプライベートモードでは保存を諦める
+        }
+    }
+});
@@ -0,0 +1,28 @@
+import { detectLocale, LOCALES, type Locale, type LocaleStore } from '../i18n/locale';
+
+const STORAGE_KEY = 'renda-renderer.locale';
+
+/**
+ * 選んだ言語を localStorage に保存するストア。
+ * 一度も選んでいなければブラウザの言語設定から決める。
+ */
+export const createLocalLocaleStore = (storage: Storage, languages: readonly string[]): LocaleStore => {
+    const fallback = detectLocale(languages);
+    return {
+        load: () => {
+            try {
+                const saved = storage.getItem(STORAGE_KEY);
+                return LOCALES.includes(saved as Locale) ? saved as Locale : fallback;
+            } catch {
+                return fallback;
+            }
+        },
+        save: (locale) => {
+            try {
+                storage.setItem(STORAGE_KEY, locale);
+            } catch {
+                // 保存できなくても今回の起動中は切り替えが効く
+            }
+        }
+    };
+};
@@ -0,0 +1,14 @@
+import { parseReplay, type Replay } from '../game/replay';
+import { downloadBlob } from './download';
+
+// リプレイを JSON ファイルとしてダウンロードさせる
+export const downloadReplay = (replay: Replay) => {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    downloadBlob(blob, `renda-replay-${replay.recordedAt}.json`);
+};
+
+/**
+ * ファイルからリプレイを読み込む。
+ * JSON として読めないときや中身が不正なときは reject する。
+ */
+export const readReplayFile = async (file: File): Promise<Replay> => parseReplay(JSON.parse(await file.text()));
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    // オンライン対戦の中継サーバーの URL（例: ws://192.168.0.10:8787）
+    readonly VITE_RELAY_URL?: string;
+}